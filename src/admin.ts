@@ -0,0 +1,148 @@
+import type { Message } from 'whatsapp-web.js';
+import logger from './logger.js';
+import { testCMCConnection, getCacheStats } from './exchangeRate.js';
+import { testFiatConnection } from './fiatExchange.js';
+import { AuthService } from './services/authService.js';
+import { BackendService } from './services/backendService.js';
+import { PollingService } from './services/pollingService.js';
+
+// Operational commands that expose or reset internals
+export const ADMIN_ONLY_COMMANDS = ['debug', 'test', 'clear', 'refresh'];
+
+/**
+ * Admin phone numbers from ADMIN_NUMBERS (comma-separated, digits with country code)
+ */
+function getAdminNumbers(): string[] {
+  return (process.env.ADMIN_NUMBERS || '')
+    .split(',')
+    .map(n => n.replace(/\D/g, ''))
+    .filter(Boolean);
+}
+
+export function isAdmin(chatId: string): boolean {
+  return getAdminNumbers().includes(chatId.replace('@c.us', ''));
+}
+
+/**
+ * Check if a message is an admin-only command (operational or "admin ...")
+ */
+export function isAdminCommand(input: string): boolean {
+  return ADMIN_ONLY_COMMANDS.includes(input) || input === 'admin' || input.startsWith('admin ');
+}
+
+const ADMIN_HELP = `🛠️ *Admin Commands*
+
+• *admin sessions* - List active user sessions
+• *admin polls* - List transfers being polled
+• *admin stoppoll <ID>* - Stop polling a transfer
+• *admin logout <number>* - Force-logout a user
+• *admin health* - Check backend and rate providers
+
+🔧 *Operations:*
+• *debug* - Cache stats
+• *test* - Test CoinMarketCap API
+• *clear* - Clear exchange rate cache
+• *refresh* - Force refresh rates`;
+
+/**
+ * Handle "admin ..." commands. The caller must have checked isAdmin().
+ */
+export async function handleAdminCommand(message: Message, chatId: string, input: string): Promise<void> {
+  const [, action = '', arg = ''] = input.split(/\s+/);
+  logger.info(`Admin ${chatId} ran "${input}"`);
+
+  switch (action) {
+    case 'sessions':
+      await message.reply(formatSessions());
+      return;
+
+    case 'polls':
+      await message.reply(formatPolls());
+      return;
+
+    case 'stoppoll': {
+      if (!arg) {
+        await message.reply('❌ Please provide a transfer ID.\n\nExample: admin stoppoll TXN-1234567890-abc123');
+        return;
+      }
+      // Transfer IDs are case-sensitive, but the command was lowercased for matching
+      const transferId = PollingService.getActiveTransfers().find(id => id.toLowerCase() === arg);
+      if (!transferId) {
+        await message.reply(`❌ No active poll for ${arg}.`);
+        return;
+      }
+      PollingService.stopPolling(transferId);
+      await message.reply(`🛑 Stopped polling ${transferId}. The user will get no further status updates for it.`);
+      return;
+    }
+
+    case 'logout': {
+      const number = arg.replace(/\D/g, '');
+      if (!number) {
+        await message.reply('❌ Please provide a WhatsApp number with country code.\n\nExample: admin logout 6281234567890');
+        return;
+      }
+      const hadSession = AuthService.getSession(number) !== null;
+      AuthService.logout(number);
+      await message.reply(hadSession
+        ? `🚪 Logged out ${number}. They will be signed in again on their next request.`
+        : `ℹ️ ${number} had no active session; any cached backend token was cleared.`);
+      return;
+    }
+
+    case 'health':
+      await message.reply('🩺 Checking providers...');
+      await message.reply(await formatHealth());
+      return;
+
+    default:
+      await message.reply(ADMIN_HELP);
+  }
+}
+
+function formatSessions(): string {
+  const numbers = AuthService.getActiveSessions();
+  if (numbers.length === 0) {
+    return '👥 No active sessions.';
+  }
+
+  const lines = numbers.map(number => {
+    const session = AuthService.getSession(number);
+    if (!session) return `• ${number} - expired`;
+    const minutesLeft = Math.max(0, Math.round((session.expiresAt - Date.now()) / 60000));
+    return `• ${number} - ${session.user.status}, expires in ${minutesLeft} min`;
+  });
+  return `👥 *Active Sessions (${numbers.length})*\n\n${lines.join('\n')}`;
+}
+
+function formatPolls(): string {
+  const transfers = PollingService.getActiveTransfers();
+  if (transfers.length === 0) {
+    return '📡 No transfers are being polled.';
+  }
+  return `📡 *Active Polls (${transfers.length})*\n\n${transfers.map(id => `• ${id}`).join('\n')}\n\n💡 Type "admin stoppoll <ID>" to stop one.`;
+}
+
+async function formatHealth(): Promise<string> {
+  const [backend, cmc, fiat] = await Promise.all([
+    BackendService.checkHealth(),
+    testCMCConnection(),
+    testFiatConnection(),
+  ]);
+  const icon = (ok: boolean) => ok ? '🟢' : '🔴';
+  const circuit = PollingService.getCircuitState();
+  const circuitLine = circuit.openUntil
+    ? `🔴 Status polling: paused, retrying at ${new Date(circuit.openUntil).toLocaleTimeString()}`
+    : `${icon(circuit.state === 'closed')} Status polling: ${circuit.state === 'closed' ? 'OK' : 'probing'}`;
+
+  return `🩺 *Provider Health*
+
+${icon(backend.success)} Backend: ${backend.message}
+${icon(cmc.success)} CoinMarketCap: ${cmc.message}
+${icon(fiat.success)} FreeCurrencyAPI: ${fiat.message}
+${circuitLine}
+
+🔄 Rate cache: ${getCacheStats().size} entries
+📡 Active polls: ${PollingService.getActiveTasksCount()}
+👥 Active sessions: ${AuthService.getSessionCount()}`;
+}
@@ -0,0 +1,159 @@
+import { levenshtein, normalizeForMatch } from './utils/fuzzy.js';
+
+export interface BankInfo {
+  // Canonical code sent to the backend (e.g. 'BCA')
+  code: string;
+  name: string;
+  aliases: string[];
+  // Allowed account number lengths (digits)
+  accountLength: { min: number; max: number };
+}
+
+// Indonesian banks supported for IDR payouts.
+// Account lengths follow each bank's published numbering format.
+export const INDONESIAN_BANKS: BankInfo[] = [
+  { code: 'BCA', name: 'Bank Central Asia', aliases: ['central asia', 'klikbca'], accountLength: { min: 10, max: 10 } },
+  { code: 'MANDIRI', name: 'Bank Mandiri', aliases: ['livin', 'bmri'], accountLength: { min: 13, max: 13 } },
+  { code: 'BNI', name: 'Bank Negara Indonesia', aliases: ['negara indonesia', 'bni 46'], accountLength: { min: 10, max: 10 } },
+  { code: 'BRI', name: 'Bank Rakyat Indonesia', aliases: ['rakyat indonesia', 'brimo'], accountLength: { min: 15, max: 15 } },
+  { code: 'BTN', name: 'Bank Tabungan Negara', aliases: ['tabungan negara'], accountLength: { min: 16, max: 16 } },
+  { code: 'BSI', name: 'Bank Syariah Indonesia', aliases: ['syariah indonesia', 'bsm', 'bni syariah', 'bri syariah'], accountLength: { min: 10, max: 10 } },
+  { code: 'CIMB', name: 'CIMB Niaga', aliases: ['cimb niaga', 'niaga', 'octo'], accountLength: { min: 13, max: 14 } },
+  { code: 'PERMATA', name: 'Bank Permata', aliases: ['permatabank'], accountLength: { min: 10, max: 10 } },
+  { code: 'DANAMON', name: 'Bank Danamon', aliases: ['danamon indonesia'], accountLength: { min: 10, max: 13 } },
+  { code: 'OCBC', name: 'OCBC NISP', aliases: ['ocbc nisp', 'nisp'], accountLength: { min: 12, max: 12 } },
+  { code: 'MAYBANK', name: 'Maybank Indonesia', aliases: ['bii', 'maybank indonesia'], accountLength: { min: 10, max: 13 } },
+  { code: 'PANIN', name: 'Panin Bank', aliases: ['paninbank', 'pan indonesia'], accountLength: { min: 10, max: 10 } },
+  { code: 'BTPN', name: 'Bank BTPN', aliases: ['jenius', 'smbc indonesia'], accountLength: { min: 11, max: 12 } },
+  { code: 'JAGO', name: 'Bank Jago', aliases: ['jago'], accountLength: { min: 12, max: 12 } },
+  { code: 'SEABANK', name: 'SeaBank Indonesia', aliases: ['sea bank', 'seabank'], accountLength: { min: 12, max: 12 } },
+  { code: 'MEGA', name: 'Bank Mega', aliases: ['mega'], accountLength: { min: 15, max: 15 } },
+];
+
+// Singapore banks supported for SGD payouts
+export const SINGAPORE_BANKS: BankInfo[] = [
+  { code: 'DBS', name: 'DBS Bank', aliases: ['posb', 'dbs posb', 'development bank of singapore'], accountLength: { min: 9, max: 12 } },
+  { code: 'OCBC', name: 'OCBC Bank', aliases: ['oversea chinese banking', 'ocbc singapore'], accountLength: { min: 10, max: 12 } },
+  { code: 'UOB', name: 'United Overseas Bank', aliases: ['united overseas'], accountLength: { min: 10, max: 10 } },
+  { code: 'SCB', name: 'Standard Chartered Singapore', aliases: ['standard chartered', 'stanchart'], accountLength: { min: 10, max: 10 } },
+];
+
+// Malaysian banks supported for MYR payouts
+export const MALAYSIAN_BANKS: BankInfo[] = [
+  { code: 'MAYBANK', name: 'Maybank', aliases: ['malayan banking', 'maybank2u'], accountLength: { min: 12, max: 12 } },
+  { code: 'CIMB', name: 'CIMB Bank', aliases: ['cimb clicks', 'cimb malaysia'], accountLength: { min: 10, max: 14 } },
+  { code: 'PUBLIC', name: 'Public Bank', aliases: ['pbb', 'public bank berhad'], accountLength: { min: 10, max: 10 } },
+  { code: 'RHB', name: 'RHB Bank', aliases: ['rhb'], accountLength: { min: 14, max: 14 } },
+  { code: 'HLB', name: 'Hong Leong Bank', aliases: ['hong leong'], accountLength: { min: 11, max: 11 } },
+];
+
+// Thai banks supported for THB payouts
+export const THAI_BANKS: BankInfo[] = [
+  { code: 'BBL', name: 'Bangkok Bank', aliases: ['bangkok'], accountLength: { min: 10, max: 10 } },
+  { code: 'KBANK', name: 'Kasikornbank', aliases: ['kasikorn', 'k bank'], accountLength: { min: 10, max: 10 } },
+  { code: 'SCB', name: 'Siam Commercial Bank', aliases: ['siam commercial'], accountLength: { min: 10, max: 10 } },
+  { code: 'KTB', name: 'Krungthai Bank', aliases: ['krungthai', 'krung thai'], accountLength: { min: 10, max: 10 } },
+  { code: 'BAY', name: 'Krungsri (Bank of Ayudhya)', aliases: ['krungsri', 'ayudhya'], accountLength: { min: 10, max: 10 } },
+];
+
+// Philippine banks supported for PHP payouts
+export const PHILIPPINE_BANKS: BankInfo[] = [
+  { code: 'BDO', name: 'BDO Unibank', aliases: ['banco de oro', 'unibank'], accountLength: { min: 10, max: 12 } },
+  { code: 'BPI', name: 'Bank of the Philippine Islands', aliases: ['philippine islands'], accountLength: { min: 10, max: 10 } },
+  { code: 'METROBANK', name: 'Metrobank', aliases: ['metropolitan bank', 'metro bank'], accountLength: { min: 13, max: 13 } },
+  { code: 'LANDBANK', name: 'Land Bank of the Philippines', aliases: ['land bank', 'lbp'], accountLength: { min: 10, max: 10 } },
+  { code: 'UNIONBANK', name: 'UnionBank of the Philippines', aliases: ['union bank', 'ubp'], accountLength: { min: 12, max: 12 } },
+];
+
+// Bruneian banks supported for BND payouts
+export const BRUNEI_BANKS: BankInfo[] = [
+  { code: 'BIBD', name: 'Bank Islam Brunei Darussalam', aliases: ['bank islam brunei', 'bibd'], accountLength: { min: 13, max: 13 } },
+  { code: 'BAIDURI', name: 'Baiduri Bank', aliases: ['baiduri'], accountLength: { min: 10, max: 12 } },
+  { code: 'SCB', name: 'Standard Chartered Brunei', aliases: ['standard chartered', 'stanchart'], accountLength: { min: 10, max: 10 } },
+];
+
+export type BankMatch =
+  | { bank: BankInfo; exact: true }
+  | { bank: BankInfo; exact: false }
+  | null;
+
+/**
+ * Normalize bank input for comparison ("Bank B C A" -> "bca")
+ */
+function normalizeBankName(value: string): string {
+  return normalizeForMatch(value.replace(/\bbank\b/gi, ''));
+}
+
+function matchKeys(bank: BankInfo): string[] {
+  return [bank.code, bank.name, ...bank.aliases].map(normalizeBankName).filter(Boolean);
+}
+
+/**
+ * Find a bank by code, name or alias. Exact (normalized) matches win;
+ * otherwise the closest bank within a small edit distance is returned as a suggestion.
+ */
+export function findBank(input: string, banks: BankInfo[] = INDONESIAN_BANKS): BankMatch {
+  const normalized = normalizeBankName(input);
+  if (!normalized) {
+    return null;
+  }
+
+  for (const bank of banks) {
+    if (matchKeys(bank).includes(normalized)) {
+      return { bank, exact: true };
+    }
+  }
+
+  // Short inputs like "bca" only tolerate a single typo
+  const maxDistance = normalized.length <= 4 ? 1 : 2;
+  let best: { bank: BankInfo; distance: number } | null = null;
+
+  for (const bank of banks) {
+    for (const key of matchKeys(bank)) {
+      const distance = key.startsWith(normalized) && normalized.length >= 3 ? 1 : levenshtein(normalized, key);
+      if (distance <= maxDistance && (!best || distance < best.distance)) {
+        best = { bank, distance };
+      }
+    }
+  }
+
+  return best ? { bank: best.bank, exact: false } : null;
+}
+
+/**
+ * Look up a bank by its canonical code
+ */
+export function getBankByCode(code: string, banks: BankInfo[] = INDONESIAN_BANKS): BankInfo | undefined {
+  return banks.find(b => b.code === code);
+}
+
+/**
+ * Display name for a bank code, e.g. "BCA (Bank Central Asia)"
+ */
+export function formatBankName(code: string | undefined, banks: BankInfo[] = INDONESIAN_BANKS): string {
+  if (!code) return 'N/A';
+  const bank = getBankByCode(code, banks);
+  return bank ? `${bank.code} (${bank.name})` : code;
+}
+
+/**
+ * Validate an account number against the bank's length rule.
+ * Returns an error message, or null when the number is valid.
+ */
+export function validateAccountNumber(account: string, bank: BankInfo | undefined): string | null {
+  if (!/^\d+$/.test(account)) {
+    return '❌ Account number should only contain numbers. Please try again.';
+  }
+
+  if (!bank) {
+    return null;
+  }
+
+  const { min, max } = bank.accountLength;
+  if (account.length < min || account.length > max) {
+    const expected = min === max ? `${min}` : `${min}-${max}`;
+    return `❌ ${bank.code} account numbers have ${expected} digits, but you entered ${account.length}. Please check and try again.`;
+  }
+
+  return null;
+}
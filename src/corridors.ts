@@ -0,0 +1,134 @@
+import {
+  INDONESIAN_BANKS,
+  SINGAPORE_BANKS,
+  MALAYSIAN_BANKS,
+  THAI_BANKS,
+  PHILIPPINE_BANKS,
+  BRUNEI_BANKS,
+  type BankInfo
+} from './banks.js';
+
+/**
+ * Payout corridor for a destination (recipient) currency
+ */
+export interface CorridorConfig {
+  currency: string;
+  name: string;
+  country: string;
+  // Locale used to format amounts in this currency
+  locale: string;
+  // Decimal places shown for recipient amounts and rates
+  displayDecimals: number;
+  banks: BankInfo[];
+  // Payout limits per transfer, in the corridor currency
+  amountLimits: { min: number; max: number };
+}
+
+export const CORRIDORS: Record<string, CorridorConfig> = {
+  IDR: {
+    currency: 'IDR',
+    name: 'Indonesian Rupiah',
+    country: 'Indonesia',
+    locale: 'id-ID',
+    displayDecimals: 3,
+    banks: INDONESIAN_BANKS,
+    amountLimits: { min: 10000, max: 500000000 },
+  },
+  SGD: {
+    currency: 'SGD',
+    name: 'Singapore Dollar',
+    country: 'Singapore',
+    locale: 'en-SG',
+    displayDecimals: 2,
+    banks: SINGAPORE_BANKS,
+    amountLimits: { min: 1, max: 50000 },
+  },
+  MYR: {
+    currency: 'MYR',
+    name: 'Malaysian Ringgit',
+    country: 'Malaysia',
+    locale: 'ms-MY',
+    displayDecimals: 2,
+    banks: MALAYSIAN_BANKS,
+    amountLimits: { min: 5, max: 150000 },
+  },
+  THB: {
+    currency: 'THB',
+    name: 'Thai Baht',
+    country: 'Thailand',
+    locale: 'th-TH',
+    displayDecimals: 2,
+    banks: THAI_BANKS,
+    amountLimits: { min: 30, max: 1000000 },
+  },
+  PHP: {
+    currency: 'PHP',
+    name: 'Philippine Peso',
+    country: 'Philippines',
+    locale: 'en-PH',
+    displayDecimals: 2,
+    banks: PHILIPPINE_BANKS,
+    amountLimits: { min: 50, max: 2000000 },
+  },
+  BND: {
+    currency: 'BND',
+    name: 'Brunei Dollar',
+    country: 'Brunei',
+    locale: 'ms-BN',
+    displayDecimals: 2,
+    banks: BRUNEI_BANKS,
+    amountLimits: { min: 1, max: 50000 },
+  },
+};
+
+// Corridors open for transfers, e.g. ENABLED_CORRIDORS=IDR,SGD (default: all)
+const ENABLED_CORRIDORS = (process.env.ENABLED_CORRIDORS || Object.keys(CORRIDORS).join(','))
+  .split(',')
+  .map(c => c.trim().toUpperCase())
+  .filter(c => CORRIDORS[c]);
+
+/**
+ * Get the corridor config for a currency (enabled or not)
+ */
+export function getCorridor(currency: string | undefined): CorridorConfig | undefined {
+  return currency ? CORRIDORS[currency.toUpperCase()] : undefined;
+}
+
+/**
+ * List corridors currently open for transfers
+ */
+export function getEnabledCorridors(): CorridorConfig[] {
+  return ENABLED_CORRIDORS.map(c => CORRIDORS[c]!);
+}
+
+/**
+ * Check if a destination currency is open for transfers
+ */
+export function isCorridorEnabled(currency: string): boolean {
+  return ENABLED_CORRIDORS.includes(currency.toUpperCase());
+}
+
+/**
+ * Format an amount in the corridor's locale, e.g. "Rp 16.540,532" or "S$1,234.50"
+ */
+export function formatCorridorAmount(amount: number, corridor: CorridorConfig, decimals: number = corridor.displayDecimals): string {
+  return new Intl.NumberFormat(corridor.locale, {
+    style: 'currency',
+    currency: corridor.currency,
+    minimumFractionDigits: decimals,
+    maximumFractionDigits: decimals,
+  })
+    .format(amount)
+    // Intl may return a non-breaking space after the symbol; use a normal space for readability
+    .replace(/\u00a0/g, ' ');
+}
+
+/**
+ * Format a plain number (e.g. an exchange rate) in the corridor's locale
+ */
+export function formatCorridorNumber(value: number, corridor: CorridorConfig): string {
+  return new Intl.NumberFormat(corridor.locale, {
+    minimumFractionDigits: corridor.displayDecimals,
+    maximumFractionDigits: corridor.displayDecimals,
+  }).format(value);
+}
@@ -9,7 +9,6 @@ const CMC_BASE_URL = 'https://pro-api.coinmarketcap.com/v1/cryptocurrency/quotes
 // Log API key status (without exposing the key)
 if (CMC_API_KEY) {
   logger.info(`[ExchangeRate] CoinMarketCap API key configured (length: ${CMC_API_KEY.length})`);
-  logger.info(`[ExchangeRate] First 8 chars: ${CMC_API_KEY.substring(0, 8)}...`);
 } else {
   logger.warn('[ExchangeRate] CoinMarketCap API key not configured - will use fallback rates');
 }
@@ -56,8 +55,6 @@ export async function testCMCConnection(): Promise<{ success: boolean; message:
   try {
     logger.info('[ExchangeRate] Testing CoinMarketCap API connection...');
     logger.info(`[ExchangeRate] API Key length: ${CMC_API_KEY.length}`);
-    logger.info(`[ExchangeRate] API Key first 12 chars: ${CMC_API_KEY.substring(0, 12)}...`);
-    logger.info(`[ExchangeRate] API Key last 4 chars: ...${CMC_API_KEY.slice(-4)}`);
     
     const testUrl = 'https://pro-api.coinmarketcap.com/v1/cryptocurrency/listings/latest?limit=1';
     
@@ -135,7 +132,6 @@ export async function fetchCryptoPrice(fromSymbol: string, toSymbol: string): Pr
   };
   
   logger.info(`[ExchangeRate] Request URL: ${url}`);
-  logger.info(`[ExchangeRate] API Key being sent: ${CMC_API_KEY.substring(0, 8)}...${CMC_API_KEY.slice(-4)}`);
   
   const response = await fetch(url, { headers });
 
@@ -108,6 +108,26 @@ export async function convertFiat(amount: number, from: string, to: string): Pro
   return amount * rate;
 }
 
+// Test FreeCurrencyAPI connection (also reports the remaining monthly quota)
+export async function testFiatConnection(): Promise<{ success: boolean; message: string }> {
+  if (!FREECURRENCY_API_KEY) {
+    return { success: false, message: 'API key not configured in environment' };
+  }
+
+  try {
+    const client = await getFreecurrencyClient();
+    const status = await client.status();
+    const month = status?.quotas?.month;
+    if (!month) {
+      return { success: false, message: 'Unexpected status payload' };
+    }
+    return { success: true, message: `${month.remaining}/${month.total} requests left this month` };
+  } catch (err) {
+    logger.error('[FiatExchange] Connection test failed:', err);
+    return { success: false, message: `Network error: ${err instanceof Error ? err.message : 'Unknown error'}` };
+  }
+}
+
 export function clearFiatCache(): void {
   fiatCache.clear();
 }
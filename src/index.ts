@@ -4,8 +4,6 @@ import type { Message } from 'whatsapp-web.js';
 import qrcode from 'qrcode-terminal';
 import logger from './logger.js';
 import {
-  getExchangeRate,
-  calculateRecipientAmount,
   getCurrentRates,
   testCMCConnection,
   FALLBACK_RATES,
@@ -13,13 +11,27 @@ import {
   clearExchangeRateCache,
   forceRefreshRates
 } from './exchangeRate.js';
-import { SUPPORTED_FIAT } from './fiatExchange.js';
 import { BackendService } from './services/backendService.js';
-import { AuthService } from './services/authService.js';
 import { PollingService } from './services/pollingService.js';
-
-// Supported mock tokens for WALLET payment
-const SUPPORTED_MOCK_TOKENS = ['mockADA', 'mockUSDC', 'mockIDRX', 'mockEUROC', 'mockJPYC', 'mockCNHT', 'mockMXNT'];
+import { NotificationService, createNotifiers } from './services/notificationService.js';
+import { FlowTimeoutService } from './services/flowTimeoutService.js';
+import { startWebhookServer, stopWebhookServer } from './webhooks/server.js';
+import { RecipientService } from './services/recipientService.js';
+import { SubmissionTracker } from './services/submissionTracker.js';
+import { RateLimiter, type RateLimitResult } from './services/rateLimiter.js';
+import { createUserStateStore } from './services/stateStore.js';
+import { handleTransferFlow, startTransferFlow } from './transfer/flow.js';
+import { repeatTransfer } from './transfer/repeat.js';
+import { sendInvoice } from './transfer/invoice.js';
+import { trackTransfer } from './transfer/track.js';
+import { STATUS_EMOJI } from './transfer/statusMessages.js';
+import { replyWithExistingSubmission } from './transfer/submit.js';
+import { handlePinFlow, startPinCommand } from './transfer/pin.js';
+import { parseTransferCommand } from './transfer/commandParser.js';
+import { getEnabledCorridors } from './corridors.js';
+import { handleAdminCommand, isAdmin, isAdminCommand } from './admin.js';
+import { maskIncomingMessage } from './utils/card.js';
+import type { NotificationChannel, UserState } from './types/index.js';
 
 const { Client, LocalAuth } = pkg;
 
@@ -29,513 +41,108 @@ const client = new Client({
     }),
 });
 
-interface UserState {
-  awaitingInterruptConfirmation?: {
-    type: 'greeting' | 'menu';
-    originalMessage: string;
-  };
-  transferFlow?: {
-    step: 
-      | 'payment_method'
-      | 'sender_currency'
-      | 'recipient_name'
-      | 'recipient_currency'
-      | 'recipient_bank'
-      | 'recipient_account'
-      | 'amount'
-      | 'card_number'
-      | 'card_cvc'
-      | 'card_expiry'
-      | 'confirmation';
-    data: {
-      paymentMethod?: 'WALLET' | 'MASTERCARD';
-      recipientName?: string;
-      recipientCurrency?: string;
-      recipientBank?: string;
-      recipientAccount?: string;
-      senderCurrency?: string; 
-      amount?: string;
-      // Card fields (only for MASTERCARD)
-      cardNumber?: string;
-      cardCvc?: string;
-      cardExpiry?: string;
-    };
-  };
-}
+const userStateStore = createUserStateStore();
+await userStateStore.load();
 
-const userStates = new Map<string, UserState>();
+// Drop stale conversation state in the background
+setInterval(() => {
+  userStateStore.purgeExpired().catch((error) => {
+    logger.error('Failed to purge expired user states:', error);
+  });
+  RateLimiter.prune();
+}, 10 * 60 * 1000); // Check every 10 minutes
 
 // Helper function to get or create user state
-function getUserState(chatId: string): UserState {
-  if (!userStates.has(chatId)) {
-    userStates.set(chatId, {
-      // No authentication required
-    });
-  }
-  return userStates.get(chatId)!;
+async function getUserState(chatId: string): Promise<UserState> {
+  return (await userStateStore.get(chatId)) || {};
 }
 
-// Function to calculate transfer fees (mock implementation)
-function calculateTransferFee(amount: number): { fee: number; feePercentage: number } {
-  // Mock fee structure - in production this would be based on real fee schedules
-  const feePercentage = 0.015; // 1.5% fee
-  const fee = amount * feePercentage;
-  return { fee, feePercentage };
-}
-
-// Supported fiat currencies are now imported from fiatExchange.ts
-// SUPPORTED_FIAT is imported at the top of this file
-
-
-
-// Helper function to handle transfer flow
-async function handleTransferFlow(message: Message, userState: UserState, chatId: string) {
-  if (!userState.transferFlow) return false;
-
-  const { step, data } = userState.transferFlow;
-  const userInput = message.body.trim();
-
-  // Handle "back" command
-  if (userInput.toLowerCase() === 'back') {
-    switch (step) {
-      case 'recipient_name':
-        // Can't go back from first step, cancel transfer instead
-        delete userState.transferFlow;
-        logger.info(`User ${chatId} cancelled transfer from recipient_name step`);
-        await message.reply(`❌ Transfer cancelled.
-
-📋 Available services:
-• Type "transfer" - Start a new transfer
-• Type "history" - View transaction history
-• Type "help" - List available commands`);
-        return true;
-
-      case 'recipient_currency':
-        // Go back to recipient name
-        userState.transferFlow.step = 'recipient_name';
-        delete data.recipientName; // Clear previous input
-        logger.info(`User ${chatId} went back to recipient_name step`);
-        await message.reply(`👤 Back to recipient name entry.
-
-Please provide the recipient's full name:
-💡 Type "back" to cancel transfer`);
-        return true;
-
-      case 'recipient_bank':
-        // Go back to recipient currency
-        userState.transferFlow.step = 'recipient_currency';
-        delete data.recipientCurrency; // Clear previous input
-        logger.info(`User ${chatId} went back to recipient_currency step`);
-        await message.reply(`💱 Back to currency selection.
-
-What currency should the recipient receive?
-
-Available option:
-• IDR - Indonesian Rupiah
-
-Coming soon:
-• SGD - Singapore Dollar
-• MYR - Malaysian Ringgit
-• THB - Thai Baht
-• PHP - Philippine Peso
-• BND - Brunei Dollar
-
-💡 Type "back" to change recipient name`);
-        return true;
-
-      case 'recipient_account':
-        // Go back to recipient bank
-        userState.transferFlow.step = 'recipient_bank';
-        delete data.recipientBank; // Clear previous input
-        logger.info(`User ${chatId} went back to recipient_bank step`);
-        await message.reply(`🏦 Back to bank name entry.
-
-Please provide the recipient's bank name (e.g., BCA, Mandiri, BNI, etc.):
-💡 Type "back" to change currency`);
-        return true;
-
-      case 'amount':
-        // Go back to recipient account
-        userState.transferFlow.step = 'recipient_account';
-        delete data.recipientAccount; // Clear previous input
-        delete data.senderCurrency; // Clear auto-set USDT
-        logger.info(`User ${chatId} went back to recipient_account step`);
-        await message.reply(`🔢 Back to account number entry.
-
-Please provide the recipient's account number:
-💡 Type "back" to change bank name`);
-        return true;
-
-      case 'confirmation':
-        // Go back to amount
-        userState.transferFlow.step = 'amount';
-        delete data.amount; // Clear previous input
-        logger.info(`User ${chatId} went back to amount step`);
-    await message.reply(`💰 Back to amount entry.
-
-  How much ${data.senderCurrency || 'USDT'} would you like to transfer?
-  💡 Type "back" to change account number`);
-        return true;
+client.on('message', async (message) => {
+    const chatId = message.from;
+    try {
+      await handleMessage(message);
+    } catch (error) {
+      logger.error(`Failed to handle message from ${chatId}:`, error);
     }
-  }
+});
 
-  switch (step) {
-    case 'payment_method': {
-      const pm = userInput.toUpperCase();
-      if (pm !== 'WALLET' && pm !== 'MASTERCARD') {
-        await message.reply(`❌ Invalid payment method. Please type either "WALLET" or "MASTERCARD".`);
-        return true;
-      }
-      data.paymentMethod = pm as 'WALLET' | 'MASTERCARD';
-      logger.info(`User ${chatId} selected payment method: ${pm}`);
-
-      // Both WALLET and MASTERCARD continue with form flow
-      userState.transferFlow!.step = 'recipient_name';
-      await message.reply(`👤 Please provide the recipient's full name:\n💡 Type "back" to cancel transfer`);
-      return true;
-    }
-    case 'recipient_name':
-      data.recipientName = userInput;
-      userState.transferFlow.step = 'recipient_currency';
-      logger.info(`User ${chatId} provided recipient name: ${userInput}`);
-      await message.reply(`💱 Great! What currency should the recipient receive?
-
-Available option:
-• IDR - Indonesian Rupiah
-
-Coming soon:
-• SGD - Singapore Dollar
-• MYR - Malaysian Ringgit
-• THB - Thai Baht
-• PHP - Philippine Peso
-• BND - Brunei Dollar
-
-Please type "IDR":
-💡 Type "back" to change recipient name`);
-      return true;
-
-    case 'recipient_currency': {
-      const currency = userInput.toUpperCase();
-      if (currency !== 'IDR') {
-        await message.reply(`❌ Please choose IDR (Indonesian Rupiah) as the recipient currency.
-
-💡 Type "back" to change recipient name`);
-        return true;
-      }
-      data.recipientCurrency = currency;
-      userState.transferFlow.step = 'recipient_bank';
-      logger.info(`User ${chatId} selected recipient currency: ${currency}`);
-      await message.reply(`🏦 Perfect! Now please provide the recipient's bank name (e.g., BCA, Mandiri, BNI, etc.):
+async function handleMessage(message: Message) {
+    const chatId = message.from;
 
-💡 Type "back" to change currency`);
-      return true;
+    // Ignore group messages and broadcasts - only handle private chats
+    if (chatId.includes('@g.us') || chatId.includes('@broadcast')) {
+      logger.info(`Ignoring message from group/broadcast: ${chatId}`);
+      return;
     }
 
-    case 'recipient_bank':
-      data.recipientBank = userInput;
-      userState.transferFlow.step = 'recipient_account';
-      logger.info(`User ${chatId} provided recipient bank: ${userInput}`);
-      await message.reply(`🔢 Excellent! Now please provide the recipient's account number:
-
-💡 Type "back" to change bank name`);
-      return true;
-
-    case 'recipient_account':
-      // Simple validation for account number (should be numbers)
-      if (!/^\d+$/.test(userInput)) {
-        await message.reply(`❌ Account number should only contain numbers. Please try again:
-
-💡 Type "back" to change bank name`);
-        return true;
-      }
-      data.recipientAccount = userInput;
-      // If paying by card, ask which fiat currency they'll use (Mastercard supports fiat)
-      if (data.paymentMethod === 'MASTERCARD') {
-        userState.transferFlow.step = 'sender_currency';
-        logger.info(`User ${chatId} provided recipient account and will pay by card: ${userInput}`);
-        await message.reply(`🌍 Which currency will you pay with? Choose one of: ${SUPPORTED_FIAT.join(', ')}\n\nPlease type the 3-letter code (e.g. USD).`);
-      } else {
-        // Wallet: allow mock tokens
-        userState.transferFlow.step = 'sender_currency';
-        logger.info(`User ${chatId} provided recipient account and will pay from wallet: ${userInput}`);
-        await message.reply(`🪙 Which mock token will you send?\n\nAvailable tokens:\n${SUPPORTED_MOCK_TOKENS.map(t => `• ${t}`).join('\n')}\n\nPlease type the token name (e.g. mockADA):`);
-      }
-      return true;
-
-    case 'amount': {
-      // Simple validation for amount (should be a positive number)
-      const amount = parseFloat(userInput);
-      if (isNaN(amount) || amount <= 0) {
-        await message.reply(`❌ Please enter a valid amount (positive number only):
-
-💡 Type "back" to change account number`);
-        return true;
-      }
-      data.amount = userInput;
-      userState.transferFlow.step = 'confirmation';
-      logger.info(`User ${chatId} provided amount: ${userInput}`);
-      
-      try {
-        // Calculate exchange rate and recipient amount
-        const senderAmount = parseFloat(userInput);
-        const exchangeRate = await getExchangeRate(data.senderCurrency!, data.recipientCurrency!);
-        const recipientAmount = await calculateRecipientAmount(senderAmount, data.senderCurrency!, data.recipientCurrency!);
-        const { fee, feePercentage } = calculateTransferFee(senderAmount);
-        const totalAmount = senderAmount + fee;
-        
-  // Format numbers for display (Indonesian locale)
-  // Use 3 decimal places for both rate and recipient display to match example: "Rp 16.540,532"
-  const idrCurrency = new Intl.NumberFormat('id-ID', { style: 'currency', currency: 'IDR', minimumFractionDigits: 3, maximumFractionDigits: 3 });
-  const idrRateFormatter = new Intl.NumberFormat('id-ID', { minimumFractionDigits: 3, maximumFractionDigits: 3 });
-
-  const formattedRate = idrRateFormatter.format(exchangeRate); // e.g. 16.540,532
-  // Use currency formatter for recipient amount (adds Rp symbol)
-  let formattedRecipientAmount = idrCurrency.format(recipientAmount); // e.g. Rp16.540,532
-  // Ensure a normal space after Rp for readability (Intl may return a non-breaking space)
-  formattedRecipientAmount = formattedRecipientAmount.replace(/^Rp\s?/, 'Rp ');
-
-  const formattedFee = `${fee.toFixed(2)} ${data.senderCurrency}`;
-  const formattedTotal = `${totalAmount.toFixed(2)} ${data.senderCurrency}`;
-        
-        // Show confirmation with exchange rate
-        let confirmationMessage = `📋 Please confirm your transfer details:
-
-👤 Recipient Name: ${data.recipientName}
-💱 Recipient Currency: ${data.recipientCurrency}
-🏦 Bank: ${data.recipientBank}
-🔢 Account Number: ${data.recipientAccount}
-💱 Sender Currency: ${data.senderCurrency}
-💰 Amount: ${data.amount} ${data.senderCurrency}`;
-
-        // Add exchange rate info if currencies are different
-        if (data.senderCurrency !== data.recipientCurrency) {
-          confirmationMessage += `
-
-📊 Exchange Rate Information:
-💱 Rate: 1 ${data.senderCurrency} = ${formattedRate} ${data.recipientCurrency}
-💰 Recipient will receive: ${formattedRecipientAmount} ${data.recipientCurrency}`;
-        }
-
-  // Add fee information
-  confirmationMessage += `
-
-💳 Fee Information:
-📊 Transfer Fee (${(feePercentage * 100).toFixed(1)}%): ${formattedFee}
-💰 Total Amount: ${formattedTotal}`;
-
-        confirmationMessage += `
-
-Type "confirm" to proceed, "cancel" to abort, or "back" to change amount.`;
-
-        await message.reply(confirmationMessage);
-        return true;
-      } catch (error) {
-        logger.error('Error calculating exchange rate:', error);
-        await message.reply('❌ Sorry, there was an error calculating the exchange rate. Please try again or contact support.');
-        delete userState.transferFlow;
-        return true;
-      }
+    // Ignore empty messages
+    if (!message.body || message.body.trim() === '') {
+      logger.info(`Ignoring empty message from ${chatId}`);
+      return;
     }
 
-    case 'card_number': {
-      const digits = userInput.replace(/\s+/g, '');
-      if (!/^\d{13,19}$/.test(digits)) {
-        await message.reply(`❌ Invalid card number. Please enter digits only (13-19 digits).`);
-        return true;
-      }
-      data.cardNumber = digits;
-      userState.transferFlow.step = 'card_cvc';
-      await message.reply(`🔒 Enter CVC (3 or 4 digits):`);
-      return true;
-    }
+    const userState = await getUserState(chatId);
 
-    case 'card_cvc': {
-      if (!/^\d{3,4}$/.test(userInput)) {
-        await message.reply(`❌ Invalid CVC. Please enter 3 or 4 digits.`);
-        return true;
+    // Throttle floods before doing any work for them
+    const inConversation = !!userState.transferFlow || !!userState.pinFlow;
+    const limit = RateLimiter.consume(chatId, RateLimiter.classify(message.body, inConversation));
+    if (!limit.allowed) {
+      if (limit.notify) {
+        await message.reply(formatRateLimitReply(limit));
       }
-      data.cardCvc = userInput;
-      userState.transferFlow.step = 'card_expiry';
-      await message.reply(`📅 Enter card expiry (MM/YY or MM/YYYY):`);
-      return true;
+      return;
     }
 
-    case 'card_expiry': {
-      if (!/^(0[1-9]|1[0-2])\/(\d{2}|\d{4})$/.test(userInput)) {
-        await message.reply(`❌ Invalid expiry format. Use MM/YY or MM/YYYY.`);
-        return true;
-      }
-      data.cardExpiry = userInput;
-      // After collecting card, ask for amount
-      userState.transferFlow.step = 'amount';
-  await message.reply(`💰 Card saved. How much ${data.senderCurrency || 'USDT'} would you like to transfer?
-
-💡 Type "back" to change account number`);
-      return true;
-    }
-
-    case 'sender_currency': {
-      const code = userInput;
-      // Validation differs for MASTERCARD (fiat list) vs WALLET (mock tokens)
-      if (data.paymentMethod === 'MASTERCARD') {
-        const upperCode = code.toUpperCase();
-        if (!SUPPORTED_FIAT.includes(upperCode)) {
-          await message.reply(`❌ Unsupported currency. Please choose one of: ${SUPPORTED_FIAT.join(', ')}`);
-          return true;
-        }
-        data.senderCurrency = upperCode;
-      } else {
-        // WALLET: validate mock token
-        if (!SUPPORTED_MOCK_TOKENS.includes(code)) {
-          await message.reply(`❌ Unsupported token. Please choose one of:\n${SUPPORTED_MOCK_TOKENS.map(t => `• ${t}`).join('\n')}`);
-          return true;
-        }
-        data.senderCurrency = code;
-      }
+    // Card numbers, CVCs, expiry dates and PINs never reach the log
+    const enteringPin = !!userState.pinFlow || !!userState.transferFlow?.awaitingPin;
+    logger.info(`Received message from ${chatId}: ${enteringPin ? '[PIN hidden]' : maskIncomingMessage(message.body, userState.transferFlow?.step)}`);
 
-      // After choosing fiat for Mastercard, collect card details
-      if (data.paymentMethod === 'MASTERCARD') {
-        userState.transferFlow.step = 'card_number';
-        await message.reply(`💳 You chose to pay with ${code}. Please enter your card number (no spaces):`);
-        return true;
+    try {
+      await routeMessage(message, userState, chatId);
+    } finally {
+      // Any reply restarts the idle timer of an open transfer
+      if (userState.transferFlow) {
+        userState.transferFlow.lastActivityAt = Date.now();
+        delete userState.transferFlow.reminderSentAt;
       }
-      // WALLET: proceed to amount entry
-      userState.transferFlow.step = 'amount';
-      await message.reply(`💰 How much ${code} would you like to transfer?`);
-      return true;
+      // Persist after every step so in-progress flows survive restarts
+      await userStateStore.set(chatId, userState);
     }
-
-    case 'confirmation':
-      if (userInput.toLowerCase() === 'confirm') {
-        logger.info(`User ${chatId} confirmed transfer: ${JSON.stringify(data)}`);
-
-        // Clear transfer flow
-        delete userState.transferFlow;
-
-        try {
-          // Extract WhatsApp number from chatId (format: 1234567890@c.us)
-          const whatsappNumber = chatId.replace('@c.us', '');
-
-          // Ensure user is authenticated with backend
-          await message.reply('🔐 Authenticating with backend...');
-          await AuthService.ensureAuthenticated(whatsappNumber);
-
-          // Build request
-          const createReq: import('./types/index.js').CreateTransactionRequest = {
-            recipientPhone: chatId.startsWith('+') ? chatId : `+${whatsappNumber}`,
-            sourceCurrency: data.senderCurrency!,
-            targetCurrency: data.recipientCurrency!,
-            sourceAmount: parseFloat(data.amount!)
-          };
-
-          if (data.recipientAccount) createReq.recipientBankAccount = data.recipientAccount;
-          if (data.recipientBank) createReq.recipientBank = data.recipientBank;
-          if (data.recipientName) createReq.recipientName = data.recipientName;
-
-          // Attach payment method and card data
-          if (data.paymentMethod === 'MASTERCARD') {
-            createReq.paymentMethod = 'MASTERCARD';
-            createReq.card = {
-              number: data.cardNumber || '',
-              cvc: data.cardCvc || '',
-              expiry: data.cardExpiry || ''
-            };
-          } else {
-            createReq.paymentMethod = 'WALLET';
-          }
-
-          // For WALLET: Create transfer record and send payment link
-          if (data.paymentMethod === 'WALLET') {
-            await message.reply('💳 Creating transfer record...');
-            const tx = await BackendService.createTransaction(whatsappNumber, createReq);
-
-            // Generate payment link with pre-filled data
-            const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
-            const params = new URLSearchParams({
-              transferId: tx.id,
-              recipientName: data.recipientName || '',
-              recipientCurrency: data.recipientCurrency || '',
-              recipientBank: data.recipientBank || '',
-              recipientAccount: data.recipientAccount || '',
-              senderCurrency: data.senderCurrency || '',
-              amount: data.amount || ''
-            });
-            const paymentLink = `${frontendUrl}/wallet-transfer?${params.toString()}`;
-
-            let responseMessage = `✅ Transfer details confirmed!\n\n`;
-            responseMessage += `Transaction ID: ${tx.id}\n`;
-            responseMessage += `Status: ${tx.status}\n\n`;
-            responseMessage += `🔗 *Payment Link:*\n${paymentLink}\n\n`;
-            responseMessage += `📱 *Next Steps:*\n`;
-            responseMessage += `1. Click the link above\n`;
-            responseMessage += `2. Connect your Cardano wallet\n`;
-            responseMessage += `3. Review the pre-filled details\n`;
-            responseMessage += `4. Send ${data.amount} ${data.senderCurrency} from your wallet\n\n`;
-            responseMessage += `🔔 You will receive automatic updates when the transaction is complete.`;
-
-            await message.reply(responseMessage);
-
-            // Start polling for transaction status updates
-            PollingService.startPolling(tx.id, chatId);
-            logger.info(`Started polling for WALLET transaction ${tx.id}`);
-          } else {
-            // For MASTERCARD: Process immediately with blockchain minting
-            await message.reply('💳 Processing your transfer...');
-            const tx = await BackendService.createTransaction(whatsappNumber, createReq);
-
-            let responseMessage = `✅ Transfer request submitted successfully!\n\n`;
-            responseMessage += `Transaction ID: ${tx.id}\n`;
-            responseMessage += `Status: ${tx.status}\n\n`;
-            responseMessage += `💰 Amount: ${data.amount} ${data.senderCurrency}\n`;
-            responseMessage += `👤 Recipient: ${data.recipientName}\n`;
-            responseMessage += `🏦 Bank: ${data.recipientBank}\n`;
-            responseMessage += `💳 Account: ${data.recipientAccount}\n\n`;
-            responseMessage += `⛓️ Blockchain processing started...\n`;
-            responseMessage += `🔔 You will receive an invoice PDF when the transaction completes.`;
-
-            await message.reply(responseMessage);
-
-            // Start polling for transaction status updates and invoice PDF
-            PollingService.startPolling(tx.id, chatId);
-            logger.info(`Started polling for MASTERCARD transaction ${tx.id}`);
-          }
-
-        } catch (err: unknown) {
-          const msg = err instanceof Error ? err.message : String(err);
-          logger.error('[Transfer] Create transaction error:', msg);
-          await message.reply(`❌ Failed to create transaction: ${msg || 'Unknown error'}.\n\nPlease try again later or contact support.`);
-        }
-
-        return true;
-      } else if (userInput.toLowerCase() === 'cancel') {
-        logger.info(`User ${chatId} cancelled transfer`);
-        delete userState.transferFlow;
-        await message.reply(`❌ Transfer cancelled. How else can I help you today?\n\n📋 Available services:\n• Type "transfer" - Start a new transfer\n• Type "history" - View transaction history\n• Type "help" - List available commands`);
-        return true;
-  }
-  return true;
-  }
-
 }
 
-client.on('message', async (message) => {
-    logger.info(`Received message from ${message.from}: ${message.body}`);
-    console.log(message.body);
-    const chatId = message.from;
-
-    // Ignore group messages and broadcasts - only handle private chats
-    if (chatId.includes('@g.us') || chatId.includes('@broadcast')) {
-      logger.info(`Ignoring message from group/broadcast: ${chatId}`);
-      return;
+function formatRateLimitReply(limit: Exclude<RateLimitResult, { allowed: true }>): string {
+    if (limit.reason === 'muted') {
+      const minutes = Math.max(1, Math.ceil((limit.mutedUntil - Date.now()) / 60000));
+      return `🔇 Too many messages in a short time. I'll ignore this chat for the next ${minutes} minute${minutes === 1 ? '' : 's'}.`;
     }
 
-    // Ignore empty messages
-    if (!message.body || message.body.trim() === '') {
-      logger.info(`Ignoring empty message from ${chatId}`);
-      return;
+    const seconds = Math.max(1, Math.ceil(limit.retryAfterMs / 1000));
+    if (limit.commandClass === 'expensive') {
+      return `⏳ Exchange rates can only be checked a few times per minute. Please try again in ${seconds} second${seconds === 1 ? '' : 's'}.`;
     }
+    return `⏳ You're sending messages too quickly. Please wait ${seconds} second${seconds === 1 ? '' : 's'} and try again.`;
+}
 
-    const userState = getUserState(chatId);
+function formatNotificationSettings(chatId: string): string {
+    const preferences = NotificationService.getPreferences(chatId);
+    const icon = (channel: NotificationChannel) => preferences.channels.includes(channel) ? '🟢 on' : '⚪ off';
+
+    let settings = `🔔 *Transfer Update Channels*\n\n`;
+    settings += `• WhatsApp: ${icon('whatsapp')}\n`;
+    settings += `• Email: ${icon('email')}${preferences.email ? ` (${preferences.email})` : ''}\n\n`;
+    settings += `💡 Commands:\n`;
+    settings += `• Type "notify email <address>" - Get updates by email\n`;
+    settings += `• Type "notify email off" / "notify whatsapp off" - Turn a channel off\n`;
+    settings += `• Type "notify <channel> on" - Turn it back on`;
+    return settings;
+}
+
+async function routeMessage(message: Message, userState: UserState, chatId: string) {
+    // Handle setpin / changepin / resetpin conversation if active
+    if (userState.pinFlow) {
+      const handled = await handlePinFlow(message, userState, chatId);
+      if (handled) return;
+    }
 
     // Handle transfer flow if active
     if (userState.transferFlow) {
@@ -544,6 +151,34 @@ client.on('message', async (message) => {
     }
 
     const userInput = message.body.trim().toLowerCase();
+
+    // A "confirm" that arrives after the draft was submitted (double tap or redelivery)
+    if (userInput === 'confirm') {
+      const submission = SubmissionTracker.get(chatId);
+      if (submission) {
+        await replyWithExistingSubmission(message, submission);
+        return;
+      }
+    }
+
+    // Handle one-line transfer commands (e.g. "send 150 mockUSDC to Budi Santoso BCA 1234567890 IDR")
+    const parsedTransfer = parseTransferCommand(message.body);
+    if (parsedTransfer) {
+      // "send 150 mockUSDC to mom" - fill recipient details from the address book
+      const saved = parsedTransfer.recipientName && !parsedTransfer.recipientAccount
+        ? RecipientService.get(chatId, parsedTransfer.recipientName)
+        : null;
+      if (saved) {
+        parsedTransfer.recipientName = saved.recipientName;
+        parsedTransfer.recipientCurrency = saved.recipientCurrency;
+        parsedTransfer.recipientBank = saved.recipientBank;
+        parsedTransfer.recipientAccount = saved.recipientAccount;
+      }
+
+      logger.info(`User ${chatId} started transfer from one-line command`);
+      await startTransferFlow(message, userState, chatId, parsedTransfer, `💸 Got it! Let's complete your transfer.`);
+      return;
+    }
     
     // Handle initial greeting
     if (userInput === 'hi' || userInput === 'hello' || userInput === 'hey') {
@@ -585,19 +220,144 @@ Would you like to:
       }
       
       // Initialize transfer flow - ask for payment method first
-      userState.transferFlow = {
-        step: 'payment_method',
-        data: {}
-      };
+      await startTransferFlow(message, userState, chatId);
+      return;
+    }
 
-      logger.info(`User ${chatId} started transfer flow`);
-      await message.reply(`💸 Let's start your transfer process!
+    // Handle transfer to a saved recipient (e.g. "transfer to mom")
+    if (userInput.startsWith('transfer to ')) {
+      const alias = userInput.replace('transfer to ', '').trim();
+      const recipient = RecipientService.get(chatId, alias);
 
-How would you like to pay?
-• Type "WALLET" - Pay via Wallet (redirect to payment link)
-• Type "MASTERCARD" - Pay via Mastercard (enter card details here)
+      if (!recipient) {
+        await message.reply(`❌ No saved recipient called "${alias}".
 
-💡 Type "back" to cancel transfer`);
+💡 Type "recipients" to see your saved recipients, or "transfer" to enter details manually.`);
+        return;
+      }
+
+      logger.info(`User ${chatId} started transfer to saved recipient "${recipient.alias}"`);
+      await startTransferFlow(message, userState, chatId, {
+        recipientName: recipient.recipientName,
+        recipientCurrency: recipient.recipientCurrency,
+        recipientBank: recipient.recipientBank,
+        recipientAccount: recipient.recipientAccount
+      }, `💸 Sending to *${recipient.recipientName}* (${recipient.recipientBank} ${recipient.recipientAccount}).`);
+      return;
+    }
+
+    // Handle repeat of a previous transfer (e.g. "repeat TXN-1234567890-abc123")
+    if (userInput.startsWith('repeat ')) {
+      // Use the original text - transfer IDs are case-sensitive
+      const transferId = message.body.trim().slice('repeat '.length).trim();
+      await repeatTransfer(message, userState, chatId, transferId);
+      return;
+    }
+
+    // Handle invoice re-download (e.g. "invoice TXN-1234567890-abc123")
+    if (userInput.startsWith('invoice ')) {
+      // Use the original text - transfer IDs are case-sensitive
+      const transferId = message.body.trim().slice('invoice '.length).trim();
+      await sendInvoice(message, chatId, transferId);
+      return;
+    }
+
+    // Handle transaction PIN commands
+    if (userInput === 'setpin' || userInput === 'changepin' || userInput === 'resetpin') {
+      const action = userInput === 'setpin' ? 'set' : userInput === 'changepin' ? 'change' : 'reset';
+      await startPinCommand(message, userState, chatId, action);
+      return;
+    }
+
+    // Handle saved recipients list
+    if (userInput === 'recipients') {
+      const recipients = RecipientService.list(chatId);
+
+      if (recipients.length === 0) {
+        await message.reply(`📒 *Saved Recipients*
+
+You don't have any saved recipients yet. After a completed transfer we'll offer to save the recipient for you.`);
+        return;
+      }
+
+      let listMessage = `📒 *Saved Recipients*\n\n`;
+      recipients.forEach((r, index) => {
+        listMessage += `${index + 1}. *${r.alias}* - ${r.recipientName}\n`;
+        listMessage += `   ${r.recipientBank} ${r.recipientAccount} (${r.recipientCurrency})\n\n`;
+      });
+      listMessage += `💡 Commands:\n`;
+      listMessage += `• Type "transfer to <alias>" - Send to a saved recipient\n`;
+      listMessage += `• Type "recipients delete <alias>" - Remove a recipient`;
+
+      await message.reply(listMessage);
+      return;
+    }
+
+    // Handle saved recipient deletion
+    if (userInput.startsWith('recipients delete ')) {
+      const alias = userInput.replace('recipients delete ', '').trim();
+
+      if (RecipientService.delete(chatId, alias)) {
+        await message.reply(`🗑️ Recipient "${alias}" deleted.`);
+      } else {
+        await message.reply(`❌ No saved recipient called "${alias}". Type "recipients" to see your list.`);
+      }
+      return;
+    }
+
+    // Handle saving the recipient offered after a completed transfer
+    if (userInput.startsWith('save ')) {
+      const alias = userInput.replace('save ', '').trim();
+
+      try {
+        const recipient = RecipientService.acceptOffer(chatId, alias);
+        if (!recipient) {
+          await message.reply('❌ There is no recipient waiting to be saved. Recipients can be saved after a completed transfer.');
+          return;
+        }
+
+        await message.reply(`✅ Saved *${recipient.recipientName}* as "${recipient.alias}".
+
+💡 Next time just type "transfer to ${recipient.alias}".`);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        await message.reply(`❌ Could not save recipient: ${errorMessage}`);
+      }
+      return;
+    }
+    
+    // Handle notification channel settings (e.g. "notify email me@example.com", "notify whatsapp off")
+    if (userInput === 'notify' || userInput.startsWith('notify ')) {
+      const [, channel = '', value = ''] = userInput.split(/\s+/);
+
+      if (!channel) {
+        await message.reply(formatNotificationSettings(chatId));
+        return;
+      }
+
+      if (channel !== 'whatsapp' && channel !== 'email') {
+        await message.reply('❌ Unknown channel. Use "whatsapp" or "email".\n\nExample: notify email you@example.com');
+        return;
+      }
+
+      try {
+        if (channel === 'email' && value && value !== 'on' && value !== 'off') {
+          if (!NotificationService.getAvailableChannels().includes('email')) {
+            await message.reply('❌ Email updates are not available right now.');
+            return;
+          }
+          NotificationService.setEmail(chatId, value);
+        } else if (value === 'on' || value === 'off') {
+          NotificationService.setChannel(chatId, channel as NotificationChannel, value === 'on');
+        } else {
+          await message.reply(`❌ Please say "on" or "off".\n\nExample: notify ${channel} off`);
+          return;
+        }
+        await message.reply(`✅ Updated!\n\n${formatNotificationSettings(chatId)}`);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        await message.reply(`❌ Could not update notifications: ${errorMessage}`);
+      }
       return;
     }
     
@@ -607,10 +367,17 @@ How would you like to pay?
 
 📋 *Available Commands:*
 • *transfer* - Start a new cross-border transfer
+• *send <amount> <token> to <name> <bank> <account> <currency>* - Transfer in one message
 • *history* - View your transaction history
 • *status <ID>* - Check transfer status by ID
+• *track <ID>* - See a transfer's timeline and time spent in each stage
+• *recipients* - View and manage saved recipients
+• *notify* - Choose where transfer updates are sent (WhatsApp, email)
+• *transfer to <alias>* - Send to a saved recipient
+• *repeat <ID>* - Send the same transfer again
+• *invoice <ID>* - Get the invoice PDF of a completed transfer
+• *setpin* / *changepin* / *resetpin* - Manage your transaction PIN
 • *rates* - View current exchange rates
-• *refresh* - Force refresh exchange rates
 • *help* - Show this help message
 
 💸 *Transfer Process:*
@@ -620,13 +387,14 @@ How would you like to pay?
 4. Enter transfer amount
 5. Confirm and complete payment
 
+💡 During a transfer type *back* to change the previous answer, *resume* to see the current question again, or *cancel* to stop.
+
 🌐 *Supported Payment Methods:*
 • *WALLET* - Pay with Cardano wallet (mockADA, mockUSDC, mockIDRX, etc.)
 • *MASTERCARD* - Pay with card (USD, EUR, IDR, etc.)
 
 🪙 *Supported Currencies:*
-• IDR (Indonesian Rupiah)
-• More coming soon!
+${getEnabledCorridors().map(c => `• ${c.currency} (${c.name})`).join('\n')}
 
 ⛓️ *Blockchain Features:*
 • Real Cardano blockchain transactions
@@ -662,6 +430,19 @@ How would you like to pay?
       }
     }
     
+    // Operational commands are restricted to the admin allowlist
+    if (isAdminCommand(userInput)) {
+      if (!isAdmin(chatId)) {
+        logger.warn(`Blocked admin command "${userInput}" from ${chatId}`);
+        await message.reply('⛔ This command is only available to administrators.');
+        return;
+      }
+      if (userInput === 'admin' || userInput.startsWith('admin ')) {
+        await handleAdminCommand(message, chatId, userInput);
+        return;
+      }
+    }
+
     // Handle debug command
     if (userInput === 'debug') {
       await message.reply(`🔧 Debug Information:
@@ -674,6 +455,7 @@ ${JSON.stringify(getCacheStats(), null, 2)}
 • "clear" - Clear exchange rate cache
 • "rates" - Show current rates
 • "refresh" - Force refresh rates
+• "admin" - Admin commands
 
 💬 Available Commands:
 • "transfer" - Start money transfer
@@ -745,9 +527,7 @@ ${statusIcon} Status: ${sourceText}
 ${cacheStatus}
 ⏰ Updated: ${rates.timestamp}
 
-💡 Commands:
-• "refresh" - Force fresh rates
-• "transfer" - Start money transfer`);
+💡 Ready to transfer? Type "transfer"`);
         
       } catch (error) {
         logger.error(`Failed to fetch rates for user ${chatId}:`, error);
@@ -825,15 +605,7 @@ You don't have any transactions yet.
         let historyMessage = `📋 *Your Recent Transactions* (Last ${history.length})\n\n`;
 
         history.forEach((tx, index) => {
-          const statusEmojiMap: Record<string, string> = {
-            'PENDING': '⏳',
-            'PAID': '💳',
-            'PROCESSING': '⚙️',
-            'COMPLETED': '✅',
-            'FAILED': '❌',
-            'CANCELLED': '🚫'
-          };
-          const statusEmoji = statusEmojiMap[tx.status] || '⏳';
+          const statusEmoji = STATUS_EMOJI[tx.status] || '⏳';
 
           const date = new Date(tx.created_at).toLocaleDateString('en-US', {
             month: 'short',
@@ -858,7 +630,9 @@ You don't have any transactions yet.
 
         historyMessage += `💡 Commands:\n`;
         historyMessage += `• Type "transfer" - Start new transfer\n`;
-        historyMessage += `• Type "status <ID>" - Check transfer status`;
+        historyMessage += `• Type "status <ID>" - Check transfer status\n`;
+        historyMessage += `• Type "repeat <ID>" - Send the same transfer again\n`;
+        historyMessage += `• Type "invoice <ID>" - Get a transfer's invoice`;
 
         await message.reply(historyMessage);
 
@@ -869,6 +643,14 @@ You don't have any transactions yet.
       return;
     }
     
+    // Handle status timeline (e.g. "track TXN-1234567890-abc123")
+    if (userInput.startsWith('track ')) {
+      // Use the original text - transfer IDs are case-sensitive
+      const transferId = message.body.trim().slice('track '.length).trim();
+      await trackTransfer(message, chatId, transferId);
+      return;
+    }
+
     // Handle status command to check transfer by ID
     if (userInput.startsWith('status ')) {
       try {
@@ -891,7 +673,7 @@ You don't have any transactions yet.
           statusMessage += `\n🔗 Blockchain Transaction:\n${status.blockchainTx}`;
         }
 
-        statusMessage += `\n\n💡 Type "history" to see all your transfers`;
+        statusMessage += `\n\n💡 Type "track ${status.transferId}" for the full timeline, or "history" to see all your transfers`;
 
         await message.reply(statusMessage);
 
@@ -911,7 +693,7 @@ You don't have any transactions yet.
 • "help" - See all available commands
 
 Need assistance? Type "help" for the full command list.`);
-});
+}
 
 // Add error handling
 client.on('disconnected', (reason) => {
@@ -926,10 +708,14 @@ client.on('auth_failure', (message) => {
 logger.info('Initializing WhatsApp bot...');
 client.initialize();
 
-// Initialize PollingService with client
+// Start services that message users once the client is connected
 client.on('ready', () => {
   logger.info('WhatsApp client ready');
-  PollingService.initialize(client);
+  NotificationService.initialize(createNotifiers(client));
+  PollingService.initialize();
+  FlowTimeoutService.initialize(client, userStateStore);
+  // Backend pushes status updates here
+  startWebhookServer();
 });
 
 // Show QR in terminal when needed
@@ -945,11 +731,15 @@ client.on('qr', (qr: string) => {
 process.on('SIGINT', () => {
   logger.info('Shutting down gracefully...');
   PollingService.stopAll();
+  FlowTimeoutService.stop();
+  stopWebhookServer();
   process.exit(0);
 });
 
 process.on('SIGTERM', () => {
   logger.info('Shutting down gracefully...');
   PollingService.stopAll();
+  FlowTimeoutService.stop();
+  stopWebhookServer();
   process.exit(0);
 });
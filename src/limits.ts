@@ -0,0 +1,104 @@
+import type { User } from './types/index.js';
+
+export interface AmountRule {
+  min: number;
+  max: number;
+  // Per-transfer cap while the user's KYC is pending
+  pendingKycMax: number;
+  // Maximum decimal places accepted
+  decimals: number;
+}
+
+// Per-transfer limits for each sender currency (fiat paid by card, mock tokens paid from a wallet).
+// Maximums are roughly 10,000 USD and pending-KYC caps roughly 500 USD.
+export const AMOUNT_RULES: Record<string, AmountRule> = {
+  USD: { min: 1, max: 10000, pendingKycMax: 500, decimals: 2 },
+  EUR: { min: 1, max: 9000, pendingKycMax: 450, decimals: 2 },
+  JPY: { min: 100, max: 1500000, pendingKycMax: 75000, decimals: 0 },
+  AUD: { min: 1, max: 15000, pendingKycMax: 750, decimals: 2 },
+  CAD: { min: 1, max: 13500, pendingKycMax: 675, decimals: 2 },
+  SGD: { min: 1, max: 13000, pendingKycMax: 650, decimals: 2 },
+  MYR: { min: 5, max: 45000, pendingKycMax: 2250, decimals: 2 },
+  THB: { min: 30, max: 350000, pendingKycMax: 17500, decimals: 2 },
+  PHP: { min: 50, max: 550000, pendingKycMax: 27500, decimals: 2 },
+  BND: { min: 1, max: 13000, pendingKycMax: 650, decimals: 2 },
+  CNY: { min: 5, max: 70000, pendingKycMax: 3500, decimals: 2 },
+  IDR: { min: 15000, max: 160000000, pendingKycMax: 8000000, decimals: 0 },
+  mockADA: { min: 1, max: 20000, pendingKycMax: 1000, decimals: 6 },
+  mockUSDC: { min: 1, max: 10000, pendingKycMax: 500, decimals: 6 },
+  mockIDRX: { min: 15000, max: 160000000, pendingKycMax: 8000000, decimals: 2 },
+  mockEUROC: { min: 1, max: 9000, pendingKycMax: 450, decimals: 6 },
+  mockJPYC: { min: 100, max: 1500000, pendingKycMax: 75000, decimals: 2 },
+  mockCNHT: { min: 5, max: 70000, pendingKycMax: 3500, decimals: 6 },
+  mockMXNT: { min: 20, max: 170000, pendingKycMax: 8500, decimals: 6 },
+};
+
+const KYC_URL = process.env.TRUSTBRIDGE_WEBSITE || 'https://trustbridge-finance.vercel.app/';
+
+export const SUSPENDED_MESSAGE = `🚫 Your account is suspended, so transfers are not available right now.
+
+Please contact our support team to restore access.`;
+
+/**
+ * Format an amount with the currency's precision, e.g. "10,000 USD"
+ */
+export function formatLimit(amount: number, currency: string): string {
+  const decimals = AMOUNT_RULES[currency]?.decimals ?? 2;
+  return `${amount.toLocaleString('en-US', { maximumFractionDigits: Math.min(decimals, 2) })} ${currency}`;
+}
+
+/**
+ * Check an amount against the sender currency's minimum, maximum and precision.
+ * Returns an error message, or null when the amount is valid.
+ */
+export function validateAmount(input: string, currency: string | undefined): string | null {
+  if (!/^\d+(\.\d+)?$/.test(input)) {
+    return '❌ Please enter a valid amount (positive number only).';
+  }
+
+  const amount = parseFloat(input);
+  if (amount <= 0) {
+    return '❌ Please enter a valid amount (positive number only).';
+  }
+
+  const rule = currency ? AMOUNT_RULES[currency] : undefined;
+  if (!rule) {
+    return null;
+  }
+
+  const decimals = input.split('.')[1]?.length || 0;
+  if (decimals > rule.decimals) {
+    return rule.decimals === 0
+      ? `❌ ${currency} amounts must be whole numbers. Please try again.`
+      : `❌ ${currency} amounts can have at most ${rule.decimals} decimal places. Please try again.`;
+  }
+
+  if (amount < rule.min) {
+    return `❌ The minimum transfer is ${formatLimit(rule.min, currency!)}. Please enter a larger amount.`;
+  }
+
+  if (amount > rule.max) {
+    return `❌ The maximum per transfer is ${formatLimit(rule.max, currency!)}. For larger amounts, please split them into several transfers.`;
+  }
+
+  return null;
+}
+
+/**
+ * Check an amount against the limits of the user's KYC status.
+ * Returns an error message, or null when the transfer is allowed.
+ */
+export function checkKycLimit(user: User, amount: number, currency: string): string | null {
+  if (user.status === 'SUSPENDED') {
+    return SUSPENDED_MESSAGE;
+  }
+
+  const rule = AMOUNT_RULES[currency];
+  if (user.status === 'PENDING_KYC' && rule && amount > rule.pendingKycMax) {
+    return `⚠️ Your identity verification (KYC) is still pending, so transfers are limited to ${formatLimit(rule.pendingKycMax, currency)} each.
+
+✅ Complete your KYC at ${KYC_URL} to raise your limit to ${formatLimit(rule.max, currency)} per transfer, or enter a smaller amount.`;
+  }
+
+  return null;
+}
@@ -1,5 +1,6 @@
 import winston from 'winston';
 import path from 'path';
+import { redactFormat } from './utils/redact.js';
 
 // Create logs directory path
 const logsDir = path.join(process.cwd(), 'logs');
@@ -12,6 +13,8 @@ const logger = winston.createLogger({
       format: 'YYYY-MM-DD HH:mm:ss'
     }),
     winston.format.errors({ stack: true }),
+    // Mask card numbers, account numbers, phone numbers, tokens and secrets for every transport
+    redactFormat(),
     winston.format.json()
   ),
   defaultMeta: { service: 'trustbridge-whatsapp-bot' },
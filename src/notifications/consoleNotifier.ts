@@ -0,0 +1,30 @@
+import fs from 'fs';
+import path from 'path';
+import logger from '../logger.js';
+import { DATA_DIR } from '../utils/jsonFileStore.js';
+import type { Notification } from '../types/index.js';
+import { getSubject, type NotificationRecipient, type Notifier } from './notifier.js';
+
+/**
+ * Development notifier: logs notifications and appends them to a file instead
+ * of messaging real users
+ */
+export class ConsoleNotifier implements Notifier {
+  private readonly filePath: string;
+
+  constructor(readonly name: string, fileName: string = 'notifications.log') {
+    this.filePath = path.join(DATA_DIR, fileName);
+  }
+
+  async send(recipient: NotificationRecipient, notification: Notification): Promise<void> {
+    const to = this.name === 'email' ? recipient.email : recipient.chatId;
+    const attachment = notification.attachment
+      ? `\n[attachment: ${notification.attachment.filename}, ${notification.attachment.data.length} bytes]`
+      : '';
+
+    logger.info(`[ConsoleNotifier] ${this.name} to ${to}: ${getSubject(notification)}`);
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.appendFileSync(this.filePath, `--- ${new Date().toISOString()} ${this.name} to ${to}\n${notification.text}${attachment}\n\n`);
+  }
+}
@@ -0,0 +1,68 @@
+import nodemailer from 'nodemailer';
+import type { Transporter } from 'nodemailer';
+import logger from '../logger.js';
+import type { Notification } from '../types/index.js';
+import { getSubject, toPlainText, type NotificationRecipient, type Notifier } from './notifier.js';
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  pass?: string;
+  from: string;
+}
+
+/**
+ * Sends notifications as plain-text email over SMTP
+ */
+export class EmailNotifier implements Notifier {
+  readonly name = 'email';
+  private readonly transporter: Transporter;
+
+  constructor(private readonly config: SmtpConfig) {
+    this.transporter = nodemailer.createTransport({
+      host: config.host,
+      port: config.port,
+      secure: config.secure,
+      ...(config.user && { auth: { user: config.user, pass: config.pass || '' } }),
+    });
+  }
+
+  async send(recipient: NotificationRecipient, notification: Notification): Promise<void> {
+    if (!recipient.email) {
+      throw new Error(`No email address for ${recipient.chatId}`);
+    }
+
+    const { attachment } = notification;
+    await this.transporter.sendMail({
+      from: this.config.from,
+      to: recipient.email,
+      subject: getSubject(notification),
+      text: toPlainText(notification.text),
+      ...(attachment && {
+        attachments: [{ filename: attachment.filename, content: attachment.data, contentType: attachment.mimetype }],
+      }),
+    });
+  }
+}
+
+/**
+ * Email notifier from the SMTP_* settings, or null when SMTP_HOST is not set
+ */
+export function createEmailNotifier(): EmailNotifier | null {
+  const host = process.env.SMTP_HOST;
+  if (!host) {
+    logger.info('[EmailNotifier] SMTP_HOST not set - email notifications disabled');
+    return null;
+  }
+
+  return new EmailNotifier({
+    host,
+    port: parseInt(process.env.SMTP_PORT || '587', 10),
+    secure: process.env.SMTP_SECURE === 'true',
+    ...(process.env.SMTP_USER && { user: process.env.SMTP_USER }),
+    ...(process.env.SMTP_PASS && { pass: process.env.SMTP_PASS }),
+    from: process.env.SMTP_FROM || 'TrustBridge <no-reply@trustbridge.local>',
+  });
+}
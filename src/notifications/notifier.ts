@@ -0,0 +1,38 @@
+import type { Notification } from '../types/index.js';
+
+/**
+ * Who a notification is for. Each notifier picks the address it needs.
+ */
+export interface NotificationRecipient {
+  chatId: string;
+  email?: string;
+}
+
+/**
+ * A channel that delivers transfer updates to users.
+ * send() throws when the notification could not be delivered.
+ */
+export interface Notifier {
+  readonly name: string;
+  send(recipient: NotificationRecipient, notification: Notification): Promise<void>;
+}
+
+/**
+ * Strip WhatsApp markup (*bold*, _italic_) for channels that show plain text
+ */
+export function toPlainText(text: string): string {
+  return text
+    .replace(/\*([^*\n]+)\*/g, '$1')
+    .replace(/(^|\s)_([^_\n]+)_(?=\s|$)/g, '$1$2');
+}
+
+/**
+ * Subject line for a notification: its subject, or the first line of the text
+ */
+export function getSubject(notification: Notification): string {
+  if (notification.subject) {
+    return notification.subject;
+  }
+  const firstLine = toPlainText(notification.text).split('\n').find(line => line.trim()) || 'TrustBridge update';
+  return firstLine.trim();
+}
@@ -0,0 +1,26 @@
+import pkg from 'whatsapp-web.js';
+import type { Client } from 'whatsapp-web.js';
+import type { Notification } from '../types/index.js';
+import type { NotificationRecipient, Notifier } from './notifier.js';
+
+const { MessageMedia } = pkg;
+
+/**
+ * Sends notifications as WhatsApp messages to the user's chat
+ */
+export class WhatsAppNotifier implements Notifier {
+  readonly name = 'whatsapp';
+
+  constructor(private readonly client: Client) {}
+
+  async send(recipient: NotificationRecipient, notification: Notification): Promise<void> {
+    const { attachment } = notification;
+    if (!attachment) {
+      await this.client.sendMessage(recipient.chatId, notification.text);
+      return;
+    }
+
+    const media = new MessageMedia(attachment.mimetype, attachment.data.toString('base64'), attachment.filename);
+    await this.client.sendMessage(recipient.chatId, media, { caption: notification.text });
+  }
+}
@@ -1,6 +1,13 @@
 import axios, { type AxiosInstance, AxiosError } from 'axios';
 import logger from '../logger.js';
-import type { CreateTransactionRequest, Transaction, AuthResponse } from '../types/index.js';
+import { maskCardDetails } from '../utils/card.js';
+import type { CreateTransactionRequest, Transaction, AuthResponse, TransferDetails, TransferQuote } from '../types/index.js';
+
+// How long a quote stays valid when the backend doesn't say
+const QUOTE_VALIDITY_SECONDS = parseInt(process.env.QUOTE_VALIDITY_SECONDS || '120', 10);
+// Invoice downloads are retried on network errors, 429 and 5xx
+const INVOICE_MAX_ATTEMPTS = 3;
+const INVOICE_RETRY_DELAY_MS = 1000; // doubled after each attempt
 
 export class BackendService {
   private static apiClient: AxiosInstance;
@@ -81,13 +88,7 @@ export class BackendService {
     recipientCurrency: string,
     amount: number,
     paymentMethod: 'WALLET' | 'MASTERCARD'
-  ): Promise<{
-    senderAmount: number;
-    recipientAmount: number;
-    exchangeRate: number;
-    fee: { percentage: number; amount: number };
-    totalAmount: number;
-  }> {
+  ): Promise<TransferQuote> {
     try {
       logger.info(`Calculating transfer: ${amount} ${senderCurrency} -> ${recipientCurrency}`);
 
@@ -99,7 +100,25 @@ export class BackendService {
       });
 
       if (response.data && response.data.success) {
-        return response.data.data;
+        const result = response.data.data;
+        const quotedAt = Date.now();
+        // Use the backend's validity window when it sends one
+        const expiresAt = result.expiresAt
+          ? new Date(result.expiresAt).getTime()
+          : quotedAt + QUOTE_VALIDITY_SECONDS * 1000;
+
+        return {
+          senderCurrency,
+          recipientCurrency,
+          paymentMethod,
+          senderAmount: result.senderAmount,
+          recipientAmount: result.recipientAmount,
+          exchangeRate: result.exchangeRate,
+          fee: result.fee,
+          totalAmount: result.totalAmount,
+          quotedAt,
+          expiresAt,
+        };
       }
 
       throw new Error('Invalid response from calculate endpoint');
@@ -117,7 +136,9 @@ export class BackendService {
     request: CreateTransactionRequest
   ): Promise<Transaction> {
     try {
-      logger.info(`Creating transaction for ${whatsappNumber}:`, JSON.stringify(request, null, 2));
+      // Never log raw card details
+      const loggable = request.card ? { ...request, card: maskCardDetails(request.card) } : request;
+      logger.info(`Creating transaction for ${whatsappNumber}:`, JSON.stringify(loggable, null, 2));
 
       // Ensure user is authenticated
       await this.ensureAuthenticated(whatsappNumber);
@@ -135,9 +156,12 @@ export class BackendService {
         cardDetails: request.card,
       };
 
-      const response = await this.apiClient.post('/api/transfer/initiate', payload, {
-        headers: authHeaders,
-      });
+      // Retries of the same draft reuse its key, so the backend returns the existing transfer
+      const headers = request.idempotencyKey
+        ? { ...authHeaders, 'Idempotency-Key': request.idempotencyKey }
+        : authHeaders;
+
+      const response = await this.apiClient.post('/api/transfer/initiate', payload, { headers });
 
       if (response.data && response.data.success) {
         const transferData = response.data.data;
@@ -196,7 +220,7 @@ export class BackendService {
   /**
    * Get detailed transaction information
    */
-  static async getTransactionDetails(transferId: string): Promise<any> {
+  static async getTransactionDetails(transferId: string): Promise<TransferDetails> {
     try {
       const response = await this.apiClient.get(`/api/transfer/details/${transferId}`);
 
@@ -237,6 +261,62 @@ export class BackendService {
     }
   }
 
+  /**
+   * Download a transfer's invoice PDF with the user's token
+   */
+  static async getInvoicePdf(whatsappNumber: string, transferId: string): Promise<Buffer> {
+    let reauthenticated = false;
+    for (let attempt = 1; ; attempt++) {
+      try {
+        logger.info(`Downloading invoice for ${transferId} (attempt ${attempt})`);
+        const authHeaders = await this.getAuthHeader(whatsappNumber);
+
+        const response = await this.apiClient.get<ArrayBuffer>(`/api/transfer/invoice/${encodeURIComponent(transferId)}`, {
+          headers: { ...authHeaders, Accept: 'application/pdf' },
+          responseType: 'arraybuffer',
+        });
+
+        const pdf = Buffer.from(response.data);
+        if (pdf.subarray(0, 4).toString() !== '%PDF') {
+          throw new Error('Invalid response from invoice endpoint');
+        }
+        return pdf;
+      } catch (error) {
+        const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+        const retryable = axios.isAxiosError(error) && (status === undefined || status === 429 || status >= 500);
+        // An expired token is dropped and the user signed in again, once
+        const expired = status === 401 && !reauthenticated;
+
+        if ((!retryable && !expired) || attempt >= INVOICE_MAX_ATTEMPTS) {
+          this.handleError('Failed to download invoice', error);
+          throw error;
+        }
+
+        if (expired) {
+          this.clearAuth(whatsappNumber);
+          reauthenticated = true;
+        } else {
+          logger.warn(`Invoice download for ${transferId} failed (${status ?? 'network error'}), retrying`);
+          await new Promise(resolve => setTimeout(resolve, INVOICE_RETRY_DELAY_MS * 2 ** (attempt - 1)));
+        }
+      }
+    }
+  }
+
+  /**
+   * Check that the backend answers at all (any HTTP response counts as reachable)
+   */
+  static async checkHealth(): Promise<{ success: boolean; message: string }> {
+    const startedAt = Date.now();
+    try {
+      const response = await this.apiClient.get('/', { validateStatus: () => true });
+      return { success: response.status < 500, message: `HTTP ${response.status} in ${Date.now() - startedAt} ms` };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return { success: false, message: `Unreachable: ${errorMessage}` };
+    }
+  }
+
   /**
    * Handle API errors with proper logging
    */
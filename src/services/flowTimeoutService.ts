@@ -0,0 +1,115 @@
+import type { Client } from 'whatsapp-web.js';
+import logger from '../logger.js';
+import { TRANSFER_STEPS } from '../transfer/steps.js';
+import { purgeCardData } from '../utils/card.js';
+import type { UserStateStore } from './stateStore.js';
+import type { TransferFlow, UserState } from '../types/index.js';
+
+/**
+ * Reminds users about transfers they stopped answering and cancels them
+ * (wiping their data) once they have been idle too long
+ */
+export class FlowTimeoutService {
+  private static client: Client | null = null;
+  private static store: UserStateStore | null = null;
+  private static checkInterval: NodeJS.Timeout | null = null;
+  private static checking = false;
+
+  // Configuration
+  private static readonly REMINDER_MS = parseInt(process.env.TRANSFER_REMINDER_MINUTES || '10', 10) * 60 * 1000;
+  private static readonly TIMEOUT_MS = parseInt(process.env.TRANSFER_TIMEOUT_MINUTES || '30', 10) * 60 * 1000;
+  private static readonly CHECK_INTERVAL = 30 * 1000; // 30 seconds
+
+  /**
+   * Initialize with the WhatsApp client and start checking for idle flows
+   */
+  static initialize(whatsappClient: Client, store: UserStateStore): void {
+    this.client = whatsappClient;
+    this.store = store;
+
+    if (!this.checkInterval) {
+      this.checkInterval = setInterval(() => {
+        this.checkIdleFlows().catch((error) => {
+          logger.error('Failed to check idle transfer flows:', error);
+        });
+      }, this.CHECK_INTERVAL);
+    }
+
+    logger.info(`FlowTimeoutService initialized (reminder after ${this.REMINDER_MS / 60000} min, cancel after ${this.TIMEOUT_MS / 60000} min)`);
+  }
+
+  /**
+   * Stop checking for idle flows
+   */
+  static stop(): void {
+    if (this.checkInterval) {
+      clearInterval(this.checkInterval);
+      this.checkInterval = null;
+      logger.info('FlowTimeoutService stopped');
+    }
+  }
+
+  /**
+   * Send reminders and cancel flows that have been idle too long
+   */
+  private static async checkIdleFlows(): Promise<void> {
+    // A slow WhatsApp send must not let two checks overlap
+    if (this.checking || !this.store) return;
+    this.checking = true;
+
+    try {
+      const now = Date.now();
+      for (const [chatId, state] of await this.store.entries()) {
+        const flow = state.transferFlow;
+        if (!flow) continue;
+
+        // Flows restored from older state files have no activity time yet
+        const idleMs = now - (flow.lastActivityAt ?? state.updatedAt ?? now);
+
+        if (idleMs >= this.TIMEOUT_MS) {
+          await this.cancelIdleFlow(chatId, state);
+        } else if (idleMs >= this.REMINDER_MS && !flow.reminderSentAt) {
+          await this.sendReminder(chatId, state, flow, idleMs);
+        }
+      }
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  private static async sendReminder(chatId: string, state: UserState, flow: TransferFlow, idleMs: number): Promise<void> {
+    flow.reminderSentAt = Date.now();
+    await this.store!.set(chatId, state);
+    logger.info(`Sent idle reminder to ${chatId} at ${flow.step} step`);
+
+    const minutesLeft = Math.max(1, Math.ceil((this.TIMEOUT_MS - idleMs) / 60000));
+    await this.send(chatId, `⏰ *Still there?*
+
+Your transfer is waiting for your ${TRANSFER_STEPS[flow.step].label}.
+
+💬 Reply to continue, type "resume" to see the question again, or "cancel" to stop.
+⌛ It will be cancelled automatically in ${minutesLeft} minute${minutesLeft === 1 ? '' : 's'}.`);
+  }
+
+  private static async cancelIdleFlow(chatId: string, state: UserState): Promise<void> {
+    purgeCardData(state.transferFlow?.data);
+    delete state.transferFlow;
+    await this.store!.set(chatId, state);
+    logger.info(`Cancelled idle transfer flow for ${chatId}`);
+
+    await this.send(chatId, `⌛ *Transfer cancelled*
+
+We didn't hear from you for ${Math.round(this.TIMEOUT_MS / 60000)} minutes, so your transfer was cancelled and the details you entered were deleted.
+
+💸 Type "transfer" whenever you're ready to start again.`);
+  }
+
+  private static async send(chatId: string, text: string): Promise<void> {
+    if (!this.client) return;
+    try {
+      await this.client.sendMessage(chatId, text);
+    } catch (error) {
+      logger.error(`Failed to send idle flow message to ${chatId}:`, error);
+    }
+  }
+}
@@ -0,0 +1,150 @@
+import type { Client } from 'whatsapp-web.js';
+import logger from '../logger.js';
+import { JsonFileStore } from '../utils/jsonFileStore.js';
+import { ConsoleNotifier } from '../notifications/consoleNotifier.js';
+import { createEmailNotifier } from '../notifications/emailNotifier.js';
+import { WhatsAppNotifier } from '../notifications/whatsappNotifier.js';
+import type { NotificationRecipient, Notifier } from '../notifications/notifier.js';
+import type { Notification, NotificationChannel, NotificationPreferences } from '../types/index.js';
+
+type Notifiers = Partial<Record<NotificationChannel, Notifier>>;
+
+const DEFAULT_CHANNELS: NotificationChannel[] = ['whatsapp'];
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Delivers transfer updates to the channels each user chose
+ */
+export class NotificationService {
+  private static notifiers: Notifiers = {};
+  private static store = new JsonFileStore<NotificationPreferences>('notification-preferences.json');
+  private static preferences: Record<string, NotificationPreferences> = NotificationService.store.read();
+
+  /**
+   * Set the notifier for each channel
+   */
+  static initialize(notifiers: Notifiers): void {
+    this.notifiers = notifiers;
+    logger.info(`NotificationService initialized (channels: ${this.getAvailableChannels().join(', ')})`);
+  }
+
+  /**
+   * Channels that can currently deliver
+   */
+  static getAvailableChannels(): NotificationChannel[] {
+    return (Object.keys(this.notifiers) as NotificationChannel[]).filter(channel => this.notifiers[channel]);
+  }
+
+  /**
+   * Channels and email address for a chat (WhatsApp only until changed)
+   */
+  static getPreferences(chatId: string): NotificationPreferences {
+    return this.preferences[chatId] || { channels: DEFAULT_CHANNELS, updatedAt: new Date(0).toISOString() };
+  }
+
+  /**
+   * Set the address for email updates and turn them on
+   */
+  static setEmail(chatId: string, email: string): NotificationPreferences {
+    const address = email.trim().toLowerCase();
+    if (!EMAIL_PATTERN.test(address)) {
+      throw new Error('That does not look like an email address');
+    }
+
+    const current = this.getPreferences(chatId);
+    const channels = current.channels.includes('email') ? current.channels : [...current.channels, 'email' as const];
+    return this.update(chatId, { ...current, channels, email: address });
+  }
+
+  /**
+   * Turn a channel on or off. At least one channel always stays on.
+   */
+  static setChannel(chatId: string, channel: NotificationChannel, enabled: boolean): NotificationPreferences {
+    const current = this.getPreferences(chatId);
+
+    if (enabled) {
+      if (!this.notifiers[channel]) {
+        throw new Error(`${channel === 'email' ? 'Email' : 'WhatsApp'} updates are not available right now`);
+      }
+      if (channel === 'email' && !current.email) {
+        throw new Error('Add your email address first');
+      }
+      if (current.channels.includes(channel)) {
+        return current;
+      }
+      return this.update(chatId, { ...current, channels: [...current.channels, channel] });
+    }
+
+    const channels = current.channels.filter(c => c !== channel);
+    if (channels.length === 0) {
+      throw new Error('At least one channel has to stay on');
+    }
+    return this.update(chatId, { ...current, channels });
+  }
+
+  /**
+   * Send a notification to the user's channels. Falls back to WhatsApp when none of them delivered.
+   * Pass channels to override the user's choice (e.g. prompts that expect a WhatsApp reply).
+   */
+  static async notify(chatId: string, notification: Notification, channels?: NotificationChannel[]): Promise<boolean> {
+    const preferences = this.getPreferences(chatId);
+    const recipient: NotificationRecipient = { chatId, ...(preferences.email && { email: preferences.email }) };
+    const targets = channels || preferences.channels;
+
+    let delivered = false;
+    for (const channel of targets) {
+      delivered = await this.sendTo(channel, recipient, notification) || delivered;
+    }
+
+    if (!delivered && !targets.includes('whatsapp')) {
+      logger.warn(`No channel delivered to ${chatId}, falling back to WhatsApp`);
+      delivered = await this.sendTo('whatsapp', recipient, notification);
+    }
+    return delivered;
+  }
+
+  private static async sendTo(
+    channel: NotificationChannel,
+    recipient: NotificationRecipient,
+    notification: Notification
+  ): Promise<boolean> {
+    const notifier = this.notifiers[channel];
+    if (!notifier) {
+      logger.error(`No ${channel} notifier configured`);
+      return false;
+    }
+
+    try {
+      await notifier.send(recipient, notification);
+      return true;
+    } catch (error) {
+      logger.error(`Failed to send ${channel} notification to ${recipient.chatId}:`, error);
+      return false;
+    }
+  }
+
+  private static update(chatId: string, preferences: NotificationPreferences): NotificationPreferences {
+    const updated = { ...preferences, updatedAt: new Date().toISOString() };
+    this.preferences[chatId] = updated;
+    this.store.write(this.preferences);
+    logger.info(`Notification channels for ${chatId}: ${updated.channels.join(', ')}`);
+    return updated;
+  }
+}
+
+/**
+ * Notifiers for every configured channel. With NOTIFIER=console updates are
+ * logged and written to data/notifications.log instead of being sent.
+ */
+export function createNotifiers(client: Client): Notifiers {
+  if (process.env.NOTIFIER === 'console') {
+    logger.info('[NotificationService] NOTIFIER=console - updates are logged, not sent');
+    return { whatsapp: new ConsoleNotifier('whatsapp'), email: new ConsoleNotifier('email') };
+  }
+
+  const email = createEmailNotifier();
+  return {
+    whatsapp: new WhatsAppNotifier(client),
+    ...(email && { email }),
+  };
+}
@@ -0,0 +1,142 @@
+import { randomBytes, scryptSync, timingSafeEqual } from 'crypto';
+import logger from '../logger.js';
+import { JsonFileStore } from '../utils/jsonFileStore.js';
+import type { PinHash, PinRecord } from '../types/index.js';
+
+export type PinCheck =
+  | { ok: true }
+  | { ok: false; reason: 'wrong'; attemptsLeft: number }
+  | { ok: false; reason: 'locked'; lockedUntil: number };
+
+export class PinService {
+  private static store = new JsonFileStore<PinRecord>('pins.json');
+  private static records: Record<string, PinRecord> = PinService.store.read();
+
+  private static readonly MAX_ATTEMPTS = parseInt(process.env.PIN_MAX_ATTEMPTS || '3', 10);
+  private static readonly LOCK_MS = parseInt(process.env.PIN_LOCK_MINUTES || '30', 10) * 60 * 1000;
+  // Transfers stay paused this long after a forgotten PIN is reset
+  static readonly RESET_HOLD_MS = parseInt(process.env.PIN_RESET_HOLD_HOURS || '24', 10) * 60 * 60 * 1000;
+
+  /**
+   * Check PIN format: 4-6 digits, not trivially guessable.
+   * Returns an error message, or null when the PIN is acceptable.
+   */
+  static validateFormat(pin: string): string | null {
+    if (!/^\d{4,6}$/.test(pin)) {
+      return '❌ Your PIN must be 4 to 6 digits.';
+    }
+
+    const digits = pin.split('').map(Number);
+    const allSame = digits.every(d => d === digits[0]);
+    const ascending = digits.every((d, i) => i === 0 || d === digits[i - 1]! + 1);
+    const descending = digits.every((d, i) => i === 0 || d === digits[i - 1]! - 1);
+    if (allSame || ascending || descending) {
+      return '❌ That PIN is too easy to guess (like 1111 or 1234). Please choose another.';
+    }
+
+    return null;
+  }
+
+  /**
+   * Hash a PIN with a fresh random salt (scrypt)
+   */
+  static hashPin(pin: string, salt: string = randomBytes(16).toString('hex')): PinHash {
+    return { hash: scryptSync(pin, salt, 64).toString('hex'), salt };
+  }
+
+  /**
+   * Compare a PIN against a stored hash in constant time
+   */
+  static matches(pin: string, stored: PinHash): boolean {
+    const { hash } = this.hashPin(pin, stored.salt);
+    return timingSafeEqual(Buffer.from(hash, 'hex'), Buffer.from(stored.hash, 'hex'));
+  }
+
+  static hasPin(chatId: string): boolean {
+    return !!this.records[chatId]?.pin;
+  }
+
+  /**
+   * When PIN entry is locked after too many failures, the time it unlocks
+   */
+  static getLockedUntil(chatId: string): number | null {
+    const lockedUntil = this.records[chatId]?.lockedUntil;
+    return lockedUntil && lockedUntil > Date.now() ? lockedUntil : null;
+  }
+
+  /**
+   * When transfers are paused after a PIN reset, the time they resume
+   */
+  static getResetHoldUntil(chatId: string): number | null {
+    const holdUntil = this.records[chatId]?.resetHoldUntil;
+    return holdUntil && holdUntil > Date.now() ? holdUntil : null;
+  }
+
+  /**
+   * Store a (hashed) PIN for a chat
+   */
+  static setPin(chatId: string, pin: PinHash): void {
+    const record = this.records[chatId];
+    this.records[chatId] = {
+      pin,
+      failedAttempts: 0,
+      ...(record?.resetHoldUntil && { resetHoldUntil: record.resetHoldUntil }),
+      updatedAt: new Date().toISOString(),
+    };
+    this.store.write(this.records);
+    logger.info(`PIN set for ${chatId}`);
+  }
+
+  /**
+   * Check a PIN, counting failures and locking after too many
+   */
+  static verify(chatId: string, pin: string): PinCheck {
+    const record = this.records[chatId];
+    if (!record?.pin) {
+      return { ok: true };
+    }
+
+    const lockedUntil = this.getLockedUntil(chatId);
+    if (lockedUntil) {
+      return { ok: false, reason: 'locked', lockedUntil };
+    }
+
+    if (this.matches(pin, record.pin)) {
+      record.failedAttempts = 0;
+      delete record.lockedUntil;
+      this.store.write(this.records);
+      return { ok: true };
+    }
+
+    record.failedAttempts += 1;
+    logger.warn(`Wrong PIN for ${chatId} (${record.failedAttempts}/${this.MAX_ATTEMPTS})`);
+
+    if (record.failedAttempts >= this.MAX_ATTEMPTS) {
+      record.failedAttempts = 0;
+      record.lockedUntil = Date.now() + this.LOCK_MS;
+      this.store.write(this.records);
+      logger.warn(`PIN locked for ${chatId} until ${new Date(record.lockedUntil).toISOString()}`);
+      return { ok: false, reason: 'locked', lockedUntil: record.lockedUntil };
+    }
+
+    this.store.write(this.records);
+    return { ok: false, reason: 'wrong', attemptsLeft: this.MAX_ATTEMPTS - record.failedAttempts };
+  }
+
+  /**
+   * Remove a forgotten PIN. Transfers are paused for a while so someone else
+   * holding the phone can't simply reset the PIN and send money.
+   * Returns null (and pauses nothing) when there was no PIN to reset.
+   */
+  static reset(chatId: string): number | null {
+    if (!this.hasPin(chatId)) {
+      return null;
+    }
+
+    const resetHoldUntil = Date.now() + this.RESET_HOLD_MS;
+    this.records[chatId] = { failedAttempts: 0, resetHoldUntil, updatedAt: new Date().toISOString() };
+    this.store.write(this.records);
+    logger.info(`PIN reset for ${chatId}, transfers paused until ${new Date(resetHoldUntil).toISOString()}`);
+    return resetHoldUntil;
+  }
+}
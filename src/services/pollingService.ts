@@ -1,11 +1,10 @@
-import pkg from 'whatsapp-web.js';
+import axios from 'axios';
 import logger from '../logger.js';
 import { BackendService } from './backendService.js';
-import fs from 'fs';
-import path from 'path';
-import os from 'os';
-
-const { Client, MessageMedia } = pkg;
+import { NotificationService } from './notificationService.js';
+import { StatusEventService } from './statusEventService.js';
+import { isWebhookConfigured } from '../utils/webhookSecurity.js';
+import { JsonFileStore } from '../utils/jsonFileStore.js';
 
 interface PollingTask {
   transferId: string;
@@ -13,24 +12,86 @@ interface PollingTask {
   startTime: number;
   lastStatus: string;
   pollCount: number;
+  // Failed polls in a row, and in total
+  consecutiveFailures?: number;
+  totalFailures?: number;
+  // Restored after a restart and not polled yet
+  catchUp?: boolean;
+  // Schedule (not persisted): when the task is due next and its current backoff delay
+  nextPollAt?: number;
+  delayMs?: number;
 }
 
+type PollOutcome = 'changed' | 'unchanged' | 'skipped' | 'failed' | 'stopped';
+
 export class PollingService {
-  private static client: typeof Client.prototype | null = null;
   private static activeTasks: Map<string, PollingTask> = new Map();
   private static pollingInterval: NodeJS.Timeout | null = null;
+  // Transfers with a poll in progress (a task never overlaps with itself)
+  private static inFlight: Set<string> = new Set();
+  // Backend pressure: every delay is multiplied by this, and nothing runs before pausedUntil
+  private static slowdownFactor = 1;
+  private static pausedUntil = 0;
+  // Circuit breaker for the status endpoint: opens when polls fail for everyone
+  private static outageStreak = 0;
+  private static circuit: 'closed' | 'open' | 'half-open' = 'closed';
+  private static circuitOpenUntil = 0;
+  private static circuitCooldownMs = 60 * 1000;
+  // Tasks are saved on every change so pending transfers are still tracked after a restart
+  private static store = new JsonFileStore<PollingTask>('polling-tasks.json');
+  private static restored = false;
 
   // Configuration
-  private static readonly POLL_INTERVAL = 15000; // 15 seconds
+  private static readonly POLL_INTERVAL = 15000; // 15 seconds, base delay between polls of a task
+  private static readonly MAX_POLL_DELAY = 2 * 60 * 1000; // 2 minutes, backoff cap
+  private static readonly TICK_INTERVAL = 1000; // 1 second, how often due tasks are picked up
+  private static readonly CONCURRENCY = parseInt(process.env.POLL_CONCURRENCY || '5', 10);
+  private static readonly MAX_SLOWDOWN = 8;
+  // A user is only told polling failed after this many failures of the transfer itself
+  // (e.g. 404), in a row or in total. Backend outages are left to the circuit breaker.
+  private static readonly MAX_CONSECUTIVE_FAILURES = parseInt(process.env.POLL_MAX_CONSECUTIVE_FAILURES || '5', 10);
+  private static readonly MAX_TOTAL_FAILURES = parseInt(process.env.POLL_MAX_TOTAL_FAILURES || '20', 10);
+  // Backend-side failures in a row (across all transfers) that open the circuit
+  private static readonly CIRCUIT_THRESHOLD = 10;
+  private static readonly CIRCUIT_MIN_COOLDOWN = 60 * 1000; // 1 minute
+  private static readonly CIRCUIT_MAX_COOLDOWN = 10 * 60 * 1000; // 10 minutes
   private static readonly MAX_POLL_DURATION = 30 * 60 * 1000; // 30 minutes
   private static readonly MAX_POLL_COUNT = 120; // Max 120 polls (30 minutes / 15 seconds)
+  // Webhooks are the primary source; a transfer is only polled after this long without one
+  private static readonly WEBHOOK_QUIET_MS = parseInt(process.env.WEBHOOK_QUIET_SECONDS || '120', 10) * 1000;
 
   /**
-   * Initialize polling service with WhatsApp client
+   * Initialize polling service and resume saved tasks
    */
-  static initialize(whatsappClient: typeof Client.prototype): void {
-    this.client = whatsappClient;
+  static initialize(): void {
     logger.info('PollingService initialized');
+
+    // 'ready' fires again after a reconnect; tasks are only restored once
+    if (!this.restored) {
+      this.restored = true;
+      this.restoreTasks();
+    }
+  }
+
+  /**
+   * Reload saved tasks and poll them right away, so status changes that
+   * happened while the bot was down are still reported
+   */
+  private static restoreTasks(): void {
+    const saved = Object.values(this.store.read());
+    if (saved.length === 0) {
+      return;
+    }
+
+    for (const task of saved) {
+      this.activeTasks.set(task.transferId, { ...task, catchUp: true, nextPollAt: Date.now() });
+      // Statuses the user already heard about are not sent again (e.g. a redelivered webhook)
+      StatusEventService.restore(task.transferId, task.chatId, task.lastStatus);
+    }
+    logger.info(`Restored ${saved.length} polling task(s), catching up`);
+
+    this.startPollingLoop();
+    this.tick();
   }
 
   /**
@@ -48,9 +109,12 @@ export class PollingService {
       startTime: Date.now(),
       lastStatus: 'PENDING',
       pollCount: 0,
+      nextPollAt: Date.now() + this.POLL_INTERVAL,
+      delayMs: this.POLL_INTERVAL,
     };
 
     this.activeTasks.set(transferId, task);
+    this.save();
     logger.info(`Started polling for transfer ${transferId}`);
 
     // Start polling loop if not already running
@@ -64,6 +128,7 @@ export class PollingService {
    */
   static stopPolling(transferId: string): void {
     if (this.activeTasks.delete(transferId)) {
+      this.save();
       logger.info(`Stopped polling for transfer ${transferId}`);
     }
 
@@ -81,275 +146,273 @@ export class PollingService {
   private static startPollingLoop(): void {
     logger.info('Starting polling loop');
 
-    this.pollingInterval = setInterval(async () => {
-      await this.pollAllTasks();
-    }, this.POLL_INTERVAL);
+    this.pollingInterval = setInterval(() => {
+      this.tick();
+    }, this.TICK_INTERVAL);
   }
 
   /**
-   * Poll all active tasks
+   * Start polls for due tasks, at most CONCURRENCY at a time. Slow polls simply
+   * keep their slot; the next tick only fills the slots that are free.
    */
-  private static async pollAllTasks(): Promise<void> {
-    const tasks = Array.from(this.activeTasks.values());
+  private static tick(): void {
+    const now = Date.now();
+    if (now < this.pausedUntil) {
+      return;
+    }
 
-    for (const task of tasks) {
-      await this.pollTask(task);
+    if (this.circuit === 'open') {
+      if (now < this.circuitOpenUntil) {
+        return;
+      }
+      this.circuit = 'half-open';
+      logger.info('Status endpoint circuit half-open, sending a probe poll');
+    }
+
+    // While half-open a single probe decides whether polling resumes
+    const limit = this.circuit === 'half-open' ? 1 : this.CONCURRENCY;
+    const slots = limit - this.inFlight.size;
+    if (slots <= 0) {
+      return;
+    }
+
+    const due = Array.from(this.activeTasks.values())
+      .filter(task => !this.inFlight.has(task.transferId) && (task.nextPollAt ?? 0) <= now)
+      .sort((a, b) => (a.nextPollAt ?? 0) - (b.nextPollAt ?? 0))
+      .slice(0, slots);
+
+    for (const task of due) {
+      this.inFlight.add(task.transferId);
+      this.pollTask(task)
+        .then(outcome => this.schedule(task, outcome))
+        .catch(error => logger.error(`Error polling transfer ${task.transferId}:`, error))
+        .finally(() => this.inFlight.delete(task.transferId));
     }
   }
 
   /**
-   * Poll a single task
+   * Pick the task's next poll time: back to the base delay after a change,
+   * exponential backoff while nothing happens or polls fail, plus jitter
    */
-  private static async pollTask(task: PollingTask): Promise<void> {
-    try {
-      task.pollCount++;
-      const elapsed = Date.now() - task.startTime;
+  private static schedule(task: PollingTask, outcome: PollOutcome): void {
+    if (outcome === 'stopped') {
+      return;
+    }
 
-      // Check if polling should stop
-      if (elapsed > this.MAX_POLL_DURATION || task.pollCount > this.MAX_POLL_COUNT) {
-        logger.warn(`Polling timeout for transfer ${task.transferId}`);
-        await this.sendTimeoutMessage(task);
-        this.stopPolling(task.transferId);
-        return;
-      }
+    const current = task.delayMs ?? this.POLL_INTERVAL;
+    const delays: Record<Exclude<PollOutcome, 'stopped'>, number> = {
+      changed: this.POLL_INTERVAL,
+      skipped: this.POLL_INTERVAL,
+      unchanged: Math.min(current * 1.5, this.MAX_POLL_DELAY),
+      failed: Math.min(current * 2, this.MAX_POLL_DELAY),
+    };
+    task.delayMs = delays[outcome];
 
-      // Fetch transaction status from backend
-      const status = await BackendService.getTransactionStatus(task.transferId);
+    // ±20% jitter so tasks started together don't stay in lockstep
+    const jitter = 0.8 + Math.random() * 0.4;
+    task.nextPollAt = Date.now() + task.delayMs * this.slowdownFactor * jitter;
+  }
 
-      if (status.status !== task.lastStatus) {
-        // Status changed, notify user
-        logger.info(`Transfer ${task.transferId} status changed: ${task.lastStatus} -> ${status.status}`);
-        task.lastStatus = status.status;
-        await this.sendStatusUpdate(task, status);
+  /**
+   * Back off every task when the backend is rate limiting (429) or failing (5xx)
+   */
+  private static handleBackendPressure(error: unknown): void {
+    if (!axios.isAxiosError(error) || !error.response) {
+      return;
+    }
 
-        // Stop polling if transaction is in terminal state
-        if (this.isTerminalStatus(status.status)) {
-          this.stopPolling(task.transferId);
-        }
-      }
-    } catch (error) {
-      logger.error(`Error polling transfer ${task.transferId}:`, error);
+    const status = error.response.status;
+    if (status !== 429 && status < 500) {
+      return;
+    }
 
-      // If too many errors, stop polling
-      if (task.pollCount > 10) {
-        await this.sendErrorMessage(task);
-        this.stopPolling(task.transferId);
-      }
+    this.slowdownFactor = Math.min(this.slowdownFactor * 2, this.MAX_SLOWDOWN);
+
+    // Honour Retry-After (seconds) when the backend sends one
+    const retryAfter = parseInt(String(error.response.headers['retry-after'] ?? ''), 10);
+    if (!isNaN(retryAfter) && retryAfter > 0) {
+      this.pausedUntil = Math.max(this.pausedUntil, Date.now() + retryAfter * 1000);
     }
+
+    logger.warn(`Backend returned ${status}; polling slowed down ${this.slowdownFactor}x`);
   }
 
   /**
-   * Check if status is terminal (no more updates expected)
+   * Ease back to the normal pace after successful polls
    */
-  private static isTerminalStatus(status: string): boolean {
-    return ['COMPLETED', 'FAILED', 'CANCELLED'].includes(status.toUpperCase());
+  private static recoverFromPressure(): void {
+    if (this.slowdownFactor > 1) {
+      this.slowdownFactor = Math.max(1, this.slowdownFactor / 2);
+      logger.info(`Backend recovered; polling slowdown now ${this.slowdownFactor}x`);
+    }
+
+    this.outageStreak = 0;
+    if (this.circuit !== 'closed') {
+      this.circuit = 'closed';
+      this.circuitCooldownMs = this.CIRCUIT_MIN_COOLDOWN;
+      logger.info('Status endpoint circuit closed, polling resumed');
+    }
   }
 
   /**
-   * Create detailed completion summary message
+   * Network errors, timeouts, 429 and 5xx are the backend's problem, not the transfer's
    */
-  private static async createCompletionSummary(details: any): Promise<string> {
-    try {
-      const sender = details.sender || {};
-      const recipient = details.recipient || {};
-      const fees = details.fees || {};
-      const blockchain = details.blockchain || {};
-
-      // Format amounts
-      const senderAmount = sender.amount || 0;
-      const recipientAmount = recipient.amount || 0;
-      const feeAmount = fees.amount || 0;
-      const totalCharged = sender.totalCharged || (senderAmount + feeAmount);
-
-      // Format currencies with symbols
-      const senderCurrencyDisplay = this.formatCurrency(senderAmount, sender.currency);
-      const recipientCurrencyDisplay = this.formatCurrency(recipientAmount, recipient.currency);
-      const feeDisplay = this.formatCurrency(feeAmount, sender.currency);
-      const totalDisplay = this.formatCurrency(totalCharged, sender.currency);
-
-      let message = `✅ *Transfer Completed Successfully!*\n\n`;
-      message += `━━━━━━━━━━━━━━━━━━━━\n\n`;
-
-      // Transfer Summary
-      message += `📤 *You Sent*\n`;
-      message += `   ${senderCurrencyDisplay}\n\n`;
-
-      message += `📥 *Recipient Receives*\n`;
-      message += `   ${recipientCurrencyDisplay}\n`;
-      message += `   ${recipient.name || 'N/A'}\n`;
-      message += `   ${recipient.bank || 'N/A'} - ${recipient.account || 'N/A'}\n\n`;
-
-      message += `━━━━━━━━━━━━━━━━━━━━\n\n`;
-
-      // Transaction Details
-      message += `💳 *Transaction Details*\n`;
-      message += `   Fee: ${feeDisplay} (${fees.percentage || 0}%)\n`;
-      message += `   Total: ${totalDisplay}\n`;
-      message += `   Rate: ${this.formatExchangeRate(sender.currency, recipient.currency, recipientAmount / senderAmount)}\n\n`;
-
-      // Blockchain Info (optional, hidden by default)
-      if (blockchain.mockADAAmount) {
-        const adaAmount = typeof blockchain.mockADAAmount === 'number'
-          ? blockchain.mockADAAmount
-          : parseFloat(blockchain.mockADAAmount);
-
-        if (!isNaN(adaAmount)) {
-          message += `⛓️ *Blockchain*\n`;
-          message += `   Via mockADA Hub\n`;
-          message += `   ${adaAmount.toFixed(2)} mockADA used\n\n`;
-        }
-      }
-
-      message += `━━━━━━━━━━━━━━━━━━━━\n\n`;
-
-      message += `✨ *Your money is on the way!*\n`;
-      message += `The recipient will receive the funds in their bank account shortly.\n\n`;
-
-      message += `Thank you for using TrustBridge! 🌉`;
-
-      return message;
-    } catch (error) {
-      logger.error('Error creating completion summary:', error);
-      // Return fallback message
-      return `✅ *Transfer Completed!*\n\nYour transfer has been completed successfully!\n\nThank you for using TrustBridge! 🌉`;
+  private static isBackendFailure(error: unknown): boolean {
+    if (!axios.isAxiosError(error)) {
+      return false;
     }
+    const status = error.response?.status;
+    return status === undefined || status === 429 || status >= 500;
   }
 
   /**
-   * Format currency with symbol
+   * Count a backend-side failure and open the circuit once they pile up for everyone
    */
-  private static formatCurrency(amount: number, currency: string): string {
-    const symbols: Record<string, string> = {
-      'USD': '$',
-      'EUR': '€',
-      'GBP': '£',
-      'JPY': '¥',
-      'CNY': '¥',
-      'IDR': 'Rp',
-      'PHP': '₱',
-      'THB': '฿',
-      'MYR': 'RM',
-      'SGD': 'S$',
-      'INR': '₹',
-      'VND': '₫',
-      'AED': 'د.إ',
-      'MXN': '$',
-    };
+  private static recordBackendFailure(): void {
+    this.outageStreak++;
 
-    const symbol = symbols[currency] || currency;
-    const formatted = amount.toLocaleString('en-US', {
-      minimumFractionDigits: 2,
-      maximumFractionDigits: 2
-    });
+    // A failed probe re-opens the circuit for longer
+    if (this.circuit === 'half-open') {
+      this.circuitCooldownMs = Math.min(this.circuitCooldownMs * 2, this.CIRCUIT_MAX_COOLDOWN);
+      this.openCircuit();
+      return;
+    }
 
-    // For currencies that use symbol-first format
-    if (['USD', 'EUR', 'GBP', 'SGD', 'MXN'].includes(currency)) {
-      return `${symbol}${formatted}`;
+    if (this.circuit === 'closed' && this.outageStreak >= this.CIRCUIT_THRESHOLD) {
+      this.openCircuit();
     }
+  }
 
-    // For currencies that use symbol-last format
-    return `${symbol} ${formatted}`;
+  private static openCircuit(): void {
+    this.circuit = 'open';
+    this.circuitOpenUntil = Date.now() + this.circuitCooldownMs;
+    logger.error(`Status endpoint failing for all transfers; circuit open for ${this.circuitCooldownMs / 1000}s`);
   }
 
   /**
-   * Format exchange rate
+   * Circuit breaker state for monitoring
    */
-  private static formatExchangeRate(from: string, to: string, rate: number): string {
-    const formatted = rate.toLocaleString('en-US', {
-      minimumFractionDigits: 2,
-      maximumFractionDigits: 4
-    });
-    return `1 ${from} = ${formatted} ${to}`;
+  static getCircuitState(): { state: 'closed' | 'open' | 'half-open'; openUntil?: number } {
+    return this.circuit === 'open'
+      ? { state: this.circuit, openUntil: this.circuitOpenUntil }
+      : { state: this.circuit };
   }
 
   /**
-   * Send status update to user
+   * Poll a single task
    */
-  private static async sendStatusUpdate(
-    task: PollingTask,
-    status: { transferId: string; status: string; blockchainTx?: string }
-  ): Promise<void> {
-    if (!this.client) {
-      logger.error('WhatsApp client not initialized');
-      return;
-    }
-
+  private static async pollTask(task: PollingTask): Promise<PollOutcome> {
     try {
-      let message = '';
-
-      switch (status.status.toUpperCase()) {
-        case 'PAID':
-          message = `🔔 *Transaction Update*\n\n`;
-          message += `Transaction ID: ${task.transferId}\n`;
-          message += `Status: ✅ Payment Confirmed\n\n`;
-          message += `Your payment has been received and is being processed. You'll receive another update when the transaction is completed.`;
-          break;
-
-        case 'PROCESSING':
-          message = `🔔 *Transaction Update*\n\n`;
-          message += `Transaction ID: ${task.transferId}\n`;
-          message += `Status: ⏳ Processing\n\n`;
-          message += `Your transaction is being processed on the blockchain. This may take a few moments.`;
-          break;
-
-        case 'COMPLETED':
-          // Fetch full transfer details for summary
-          try {
-            const details = await BackendService.getTransactionDetails(task.transferId);
-            message = await this.createCompletionSummary(details);
-
-            // Send completion message first
-            await this.client!.sendMessage(task.chatId, message);
-
-            // Download and send invoice PDF
-            await this.sendInvoicePDF(task);
-
-            // Return early since we already sent the message
-            return;
-          } catch (error) {
-            // Fallback to simple message if details fetch fails
-            logger.error('Failed to fetch transfer details:', error);
-            message = `✅ *Transfer Completed!*\n\n`;
-            message += `Transaction ID: ${task.transferId}\n\n`;
-            message += `Your transfer has been completed successfully!\n\n`;
-            message += `Thank you for using TrustBridge! 🌉`;
+      // The webhook (or an earlier poll) already reported a final status
+      const lastStatus = StatusEventService.getLastStatus(task.transferId);
+      if (lastStatus && StatusEventService.isTerminalStatus(lastStatus)) {
+        this.stopPolling(task.transferId);
+        return 'stopped';
+      }
+
+      // Keep the saved status in step with what the webhook reported
+      if (lastStatus && lastStatus !== task.lastStatus) {
+        task.lastStatus = lastStatus;
+        this.save();
+      }
+
+      const elapsed = Date.now() - task.startTime;
+      const webhookActive = this.isWebhookActive(task);
+
+      // A restored task is always polled once, however long the bot was down
+      if (!task.catchUp) {
+        // Check if polling should stop
+        if (elapsed > this.MAX_POLL_DURATION || task.pollCount >= this.MAX_POLL_COUNT) {
+          logger.warn(`Polling timeout for transfer ${task.transferId}`);
+          // Updates keep coming through the webhook, so there's nothing to warn about
+          if (!webhookActive) {
+            await this.sendTimeoutMessage(task);
           }
-          break;
-
-        case 'FAILED':
-          message = `❌ *Transaction Failed*\n\n`;
-          message += `Transaction ID: ${task.transferId}\n\n`;
-          message += `Unfortunately, your transaction failed. Please contact support or try again.`;
-          break;
-
-        case 'CANCELLED':
-          message = `⚠️ *Transaction Cancelled*\n\n`;
-          message += `Transaction ID: ${task.transferId}\n\n`;
-          message += `Your transaction has been cancelled.`;
-          break;
-
-        default:
-          message = `🔔 *Transaction Update*\n\n`;
-          message += `Transaction ID: ${task.transferId}\n`;
-          message += `Status: ${status.status}\n\n`;
-          message += `We'll notify you when there are more updates.`;
+          this.stopPolling(task.transferId);
+          return 'stopped';
+        }
+
+        if (webhookActive) {
+          return 'skipped';
+        }
       }
 
-      await this.client.sendMessage(task.chatId, message);
-      logger.info(`Status update sent to ${task.chatId} for transfer ${task.transferId}`);
+      // Fetch transaction status from backend
+      task.pollCount++;
+      const catchUp = !!task.catchUp;
+      delete task.catchUp;
+      const status = await BackendService.getTransactionStatus(task.transferId);
+      this.recoverFromPressure();
+      task.consecutiveFailures = 0;
+
+      // The backend may report statuses in lower case; the pipeline uses upper case
+      const current = status.status.toUpperCase();
+      if (current !== task.lastStatus.toUpperCase()) {
+        // Status changed, notify user
+        logger.info(`Transfer ${task.transferId} status changed: ${task.lastStatus} -> ${current}`);
+        task.lastStatus = current;
+        this.save();
+        await StatusEventService.publish({
+          transferId: task.transferId,
+          chatId: task.chatId,
+          status: current,
+          source: 'polling',
+          receivedAt: Date.now(),
+          ...(status.blockchainTx && { blockchainUrl: status.blockchainTx }),
+          ...(catchUp && { catchUp }),
+        });
+
+        // Stop polling if transaction is in terminal state
+        if (StatusEventService.isTerminalStatus(current)) {
+          this.stopPolling(task.transferId);
+          return 'stopped';
+        }
+        return 'changed';
+      }
+      return 'unchanged';
     } catch (error) {
-      logger.error(`Failed to send status update:`, error);
+      logger.error(`Error polling transfer ${task.transferId}:`, error);
+      this.handleBackendPressure(error);
+
+      // Backend-side failures only count towards the outage; the duration limit still ends the task
+      if (this.isBackendFailure(error)) {
+        this.recordBackendFailure();
+        return 'failed';
+      }
+
+      task.consecutiveFailures = (task.consecutiveFailures ?? 0) + 1;
+      task.totalFailures = (task.totalFailures ?? 0) + 1;
+      this.save();
+
+      // Give up only on a sustained failure of this transfer
+      const sustained = task.consecutiveFailures >= this.MAX_CONSECUTIVE_FAILURES
+        || task.totalFailures >= this.MAX_TOTAL_FAILURES;
+      if (sustained) {
+        logger.warn(`Giving up polling transfer ${task.transferId} after ${task.consecutiveFailures} failures in a row (${task.totalFailures} total)`);
+        await this.sendErrorMessage(task);
+        this.stopPolling(task.transferId);
+        return 'stopped';
+      }
+      return 'failed';
     }
   }
 
   /**
-   * Send timeout message to user
+   * Whether the webhook has reported on this transfer recently (counting from
+   * submission, so the webhook gets a head start)
    */
-  private static async sendTimeoutMessage(task: PollingTask): Promise<void> {
-    if (!this.client) {
-      return;
+  private static isWebhookActive(task: PollingTask): boolean {
+    if (!isWebhookConfigured()) {
+      return false;
     }
+    const lastHeard = Math.max(task.startTime, StatusEventService.getLastWebhookAt(task.transferId) ?? 0);
+    return Date.now() - lastHeard < this.WEBHOOK_QUIET_MS;
+  }
 
+  /**
+   * Send timeout message to user
+   */
+  private static async sendTimeoutMessage(task: PollingTask): Promise<void> {
     try {
       const message = `⏰ Transaction Status Update\n\n` +
         `Transaction ID: ${task.transferId}\n\n` +
@@ -357,7 +420,7 @@ export class PollingService {
         `You can check your transaction status manually by typing "history" or contact support for assistance.\n\n` +
         `Thank you for your patience! 🙏`;
 
-      await this.client.sendMessage(task.chatId, message);
+      await NotificationService.notify(task.chatId, { text: message });
     } catch (error) {
       logger.error(`Failed to send timeout message:`, error);
     }
@@ -367,10 +430,6 @@ export class PollingService {
    * Send error message to user
    */
   private static async sendErrorMessage(task: PollingTask): Promise<void> {
-    if (!this.client) {
-      return;
-    }
-
     try {
       const message = `⚠️ Status Update Error\n\n` +
         `Transaction ID: ${task.transferId}\n\n` +
@@ -379,73 +438,29 @@ export class PollingService {
         `Please check your transaction history or contact support.\n\n` +
         `Type "history" to view your transactions.`;
 
-      await this.client.sendMessage(task.chatId, message);
+      await NotificationService.notify(task.chatId, { text: message });
     } catch (error) {
       logger.error(`Failed to send error message:`, error);
     }
   }
 
   /**
-   * Download and send invoice PDF to user
+   * Write the active tasks to disk
    */
-  private static async sendInvoicePDF(task: PollingTask): Promise<void> {
-    if (!this.client) {
-      logger.error('WhatsApp client not initialized');
-      return;
-    }
-
-    try {
-      logger.info(`Downloading invoice PDF for transfer ${task.transferId}`);
-
-      // Get backend URL from environment
-      const backendUrl = process.env.BACKEND_API_URL || 'http://localhost:5000';
-      const invoiceUrl = `${backendUrl}/api/transfer/invoice/${task.transferId}`;
-
-      // Fetch PDF from backend
-      const response = await fetch(invoiceUrl);
-
-      if (!response.ok) {
-        throw new Error(`Failed to download invoice: ${response.status} ${response.statusText}`);
-      }
-
-      // Get PDF buffer
-      const arrayBuffer = await response.arrayBuffer();
-      const buffer = Buffer.from(arrayBuffer);
-
-      // Save to temp file
-      const tempDir = os.tmpdir();
-      const tempFilePath = path.join(tempDir, `TrustBridge-Invoice-${task.transferId}.pdf`);
-      fs.writeFileSync(tempFilePath, buffer);
-
-      logger.info(`Invoice PDF saved to ${tempFilePath}`);
-
-      // Create MessageMedia from file
-      const media = MessageMedia.fromFilePath(tempFilePath);
-
-      // Send PDF to user
-      await this.client.sendMessage(task.chatId, media, {
-        caption: `📄 *Invoice for Transaction ${task.transferId}*\n\nHere's your transaction invoice. Thank you for using TrustBridge! 🌉`
-      });
-
-      logger.info(`Invoice PDF sent to ${task.chatId} for transfer ${task.transferId}`);
-
-      // Clean up temp file
-      fs.unlinkSync(tempFilePath);
-      logger.info(`Cleaned up temp file ${tempFilePath}`);
-
-    } catch (error) {
-      logger.error(`Failed to send invoice PDF for transfer ${task.transferId}:`, error);
-
-      // Send error message to user
-      try {
-        await this.client.sendMessage(
-          task.chatId,
-          `⚠️ Unable to send invoice PDF automatically. You can download it from the dashboard or contact support.`
-        );
-      } catch (msgError) {
-        logger.error(`Failed to send error message:`, msgError);
-      }
+  private static save(): void {
+    const records: Record<string, PollingTask> = {};
+    for (const [transferId, task] of this.activeTasks.entries()) {
+      records[transferId] = {
+        transferId: task.transferId,
+        chatId: task.chatId,
+        startTime: task.startTime,
+        lastStatus: task.lastStatus,
+        pollCount: task.pollCount,
+        ...(task.consecutiveFailures && { consecutiveFailures: task.consecutiveFailures }),
+        ...(task.totalFailures && { totalFailures: task.totalFailures }),
+      };
     }
+    this.store.write(records);
   }
 
   /**
@@ -463,7 +478,7 @@ export class PollingService {
   }
 
   /**
-   * Stop all polling tasks (for shutdown)
+   * Stop all polling tasks (for shutdown). Saved tasks are kept and resumed on the next start.
    */
   static stopAll(): void {
     if (this.pollingInterval) {
@@ -0,0 +1,131 @@
+import logger from '../logger.js';
+
+/**
+ * Commands are limited per class; expensive ones call the paid exchange rate APIs
+ */
+export type CommandClass = 'message' | 'expensive';
+
+export type RateLimitResult =
+  | { allowed: true }
+  // notify is false when the user was already told, so floods don't get one reply per message
+  | { allowed: false; reason: 'throttled'; commandClass: CommandClass; retryAfterMs: number; notify: boolean }
+  | { allowed: false; reason: 'muted'; mutedUntil: number; notify: boolean };
+
+interface Bucket {
+  tokens: number;
+  refilledAt: number;
+}
+
+interface ChatLimits {
+  buckets: Partial<Record<CommandClass, Bucket>>;
+  // Start times of recent throttled bursts
+  strikes: number[];
+  mutedUntil?: number;
+  notifiedUntil?: number;
+  lastSeenAt: number;
+}
+
+// Commands that hit CoinMarketCap / FreeCurrencyAPI
+const EXPENSIVE_COMMANDS = ['rates', 'refresh', 'test'];
+
+/**
+ * Token-bucket rate limiting per chat and command class, muting repeat offenders
+ */
+export class RateLimiter {
+  private static chats: Map<string, ChatLimits> = new Map();
+
+  // Bucket size (burst) and refill rate per minute for each class
+  private static readonly LIMITS: Record<CommandClass, number> = {
+    message: parseInt(process.env.MAX_MESSAGES_PER_MINUTE || '10', 10),
+    expensive: parseInt(process.env.MAX_EXPENSIVE_COMMANDS_PER_MINUTE || '2', 10),
+  };
+  private static readonly STRIKE_LIMIT = parseInt(process.env.RATE_LIMIT_STRIKES || '3', 10);
+  private static readonly STRIKE_WINDOW_MS = 10 * 60 * 1000; // 10 minutes
+  private static readonly MUTE_MS = parseInt(process.env.RATE_LIMIT_MUTE_MINUTES || '15', 10) * 60 * 1000;
+  // Chats idle this long are forgotten
+  private static readonly IDLE_MS = 60 * 60 * 1000; // 1 hour
+
+  /**
+   * Class of a message; anything typed inside a conversation is a plain message
+   */
+  static classify(input: string, inConversation: boolean): CommandClass {
+    return !inConversation && EXPENSIVE_COMMANDS.includes(input.trim().toLowerCase()) ? 'expensive' : 'message';
+  }
+
+  /**
+   * Take a token for a message. Expensive commands also count as a message.
+   */
+  static consume(chatId: string, commandClass: CommandClass): RateLimitResult {
+    const now = Date.now();
+    const chat = this.getChat(chatId, now);
+
+    if (chat.mutedUntil && chat.mutedUntil > now) {
+      return { allowed: false, reason: 'muted', mutedUntil: chat.mutedUntil, notify: false };
+    }
+
+    const classes: CommandClass[] = commandClass === 'expensive' ? ['message', 'expensive'] : ['message'];
+    for (const cls of classes) {
+      const bucket = this.refill(chat, cls, now);
+      if (bucket.tokens >= 1) continue;
+
+      const retryAfterMs = Math.ceil((1 - bucket.tokens) * 60000 / this.LIMITS[cls]);
+      // Messages sent during the cooldown belong to the same burst
+      const notify = !chat.notifiedUntil || chat.notifiedUntil <= now;
+      if (notify) {
+        chat.strikes = chat.strikes.filter(t => now - t < this.STRIKE_WINDOW_MS);
+        chat.strikes.push(now);
+
+        if (chat.strikes.length >= this.STRIKE_LIMIT) {
+          chat.mutedUntil = now + this.MUTE_MS;
+          chat.strikes = [];
+          logger.warn(`Muted ${chatId} until ${new Date(chat.mutedUntil).toISOString()} for repeated flooding`);
+          return { allowed: false, reason: 'muted', mutedUntil: chat.mutedUntil, notify: true };
+        }
+
+        chat.notifiedUntil = now + retryAfterMs;
+        logger.warn(`Rate limited ${chatId} (${cls})`);
+      }
+      return { allowed: false, reason: 'throttled', commandClass: cls, retryAfterMs, notify };
+    }
+
+    for (const cls of classes) {
+      chat.buckets[cls]!.tokens -= 1;
+    }
+    return { allowed: true };
+  }
+
+  /**
+   * Forget chats that have been quiet for a while
+   */
+  static prune(): number {
+    const now = Date.now();
+    let pruned = 0;
+    for (const [chatId, chat] of this.chats.entries()) {
+      const muted = chat.mutedUntil && chat.mutedUntil > now;
+      if (!muted && now - chat.lastSeenAt > this.IDLE_MS) {
+        this.chats.delete(chatId);
+        pruned++;
+      }
+    }
+    return pruned;
+  }
+
+  private static getChat(chatId: string, now: number): ChatLimits {
+    let chat = this.chats.get(chatId);
+    if (!chat) {
+      chat = { buckets: {}, strikes: [], lastSeenAt: now };
+      this.chats.set(chatId, chat);
+    }
+    chat.lastSeenAt = now;
+    return chat;
+  }
+
+  private static refill(chat: ChatLimits, cls: CommandClass, now: number): Bucket {
+    const limit = this.LIMITS[cls];
+    const bucket = chat.buckets[cls] ?? { tokens: limit, refilledAt: now };
+    bucket.tokens = Math.min(limit, bucket.tokens + (now - bucket.refilledAt) * limit / 60000);
+    bucket.refilledAt = now;
+    chat.buckets[cls] = bucket;
+    return bucket;
+  }
+}
@@ -0,0 +1,112 @@
+import logger from '../logger.js';
+import { JsonFileStore } from '../utils/jsonFileStore.js';
+import type { SavedRecipient } from '../types/index.js';
+
+type RecipientDetails = Omit<SavedRecipient, 'alias' | 'createdAt'>;
+
+export class RecipientService {
+  private static store = new JsonFileStore<Record<string, SavedRecipient>>('recipients.json');
+  private static offerStore = new JsonFileStore<RecipientDetails>('recipient-offers.json');
+  private static recipients: Record<string, Record<string, SavedRecipient>> = RecipientService.store.read();
+  // Recipients from completed transfers that the user was offered to save
+  private static pendingOffers: Record<string, RecipientDetails> = RecipientService.offerStore.read();
+
+  private static readonly MAX_RECIPIENTS = 20;
+  private static readonly ALIAS_PATTERN = /^[a-z0-9][a-z0-9 _-]{0,19}$/;
+
+  /**
+   * Normalize a user-typed alias for lookup and storage
+   */
+  static normalizeAlias(alias: string): string {
+    return alias.trim().toLowerCase().replace(/\s+/g, ' ');
+  }
+
+  /**
+   * List saved recipients for a chat, sorted by alias
+   */
+  static list(chatId: string): SavedRecipient[] {
+    return Object.values(this.recipients[chatId] || {}).sort((a, b) => a.alias.localeCompare(b.alias));
+  }
+
+  /**
+   * Find a saved recipient by alias
+   */
+  static get(chatId: string, alias: string): SavedRecipient | null {
+    return this.recipients[chatId]?.[this.normalizeAlias(alias)] || null;
+  }
+
+  /**
+   * Check if the same account is already in the address book
+   */
+  static isSaved(chatId: string, details: RecipientDetails): boolean {
+    return this.list(chatId).some(r =>
+      r.recipientAccount === details.recipientAccount && r.recipientBank === details.recipientBank
+    );
+  }
+
+  /**
+   * Save a recipient under an alias (overwrites an existing alias)
+   */
+  static save(chatId: string, alias: string, details: RecipientDetails): SavedRecipient {
+    const key = this.normalizeAlias(alias);
+    if (!this.ALIAS_PATTERN.test(key)) {
+      throw new Error('Alias must be 1-20 letters, numbers, spaces, "-" or "_"');
+    }
+
+    const book = this.recipients[chatId] || {};
+    if (!book[key] && Object.keys(book).length >= this.MAX_RECIPIENTS) {
+      throw new Error(`You can save up to ${this.MAX_RECIPIENTS} recipients. Delete one first.`);
+    }
+
+    const recipient: SavedRecipient = { alias: key, ...details, createdAt: new Date().toISOString() };
+    book[key] = recipient;
+    this.recipients[chatId] = book;
+    this.store.write(this.recipients);
+
+    logger.info(`Saved recipient "${key}" for ${chatId}`);
+    return recipient;
+  }
+
+  /**
+   * Delete a saved recipient
+   */
+  static delete(chatId: string, alias: string): boolean {
+    const key = this.normalizeAlias(alias);
+    const book = this.recipients[chatId];
+    if (!book?.[key]) {
+      return false;
+    }
+
+    delete book[key];
+    if (Object.keys(book).length === 0) {
+      delete this.recipients[chatId];
+    }
+    this.store.write(this.recipients);
+
+    logger.info(`Deleted recipient "${key}" for ${chatId}`);
+    return true;
+  }
+
+  /**
+   * Remember a recipient the user may save with "save <alias>"
+   */
+  static offer(chatId: string, details: RecipientDetails): void {
+    this.pendingOffers[chatId] = details;
+    this.offerStore.write(this.pendingOffers);
+  }
+
+  /**
+   * Save the pending offer for a chat under an alias
+   */
+  static acceptOffer(chatId: string, alias: string): SavedRecipient | null {
+    const details = this.pendingOffers[chatId];
+    if (!details) {
+      return null;
+    }
+
+    const recipient = this.save(chatId, alias, details);
+    delete this.pendingOffers[chatId];
+    this.offerStore.write(this.pendingOffers);
+    return recipient;
+  }
+}
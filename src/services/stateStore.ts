@@ -0,0 +1,179 @@
+import logger from '../logger.js';
+import { JsonFileStore } from '../utils/jsonFileStore.js';
+import { purgeCardData } from '../utils/card.js';
+import type { TransferStep, UserState } from '../types/index.js';
+
+/**
+ * Storage backend for per-chat conversation state
+ */
+export interface UserStateStore {
+  load(): Promise<void>;
+  get(chatId: string): Promise<UserState | undefined>;
+  set(chatId: string, state: UserState): Promise<void>;
+  delete(chatId: string): Promise<void>;
+  entries(): Promise<Array<[string, UserState]>>;
+  purgeExpired(): Promise<number>;
+}
+
+// Steps that can only be reached after card details were entered
+const CARD_DEPENDENT_STEPS: TransferStep[] = ['card_cvc', 'card_expiry', 'amount', 'confirmation'];
+
+const STATE_TTL = parseInt(process.env.USER_STATE_TTL_MINUTES || '1440', 10) * 60 * 1000; // 24 hours
+
+/**
+ * Check if a state carries anything worth keeping
+ */
+function isEmptyState(state: UserState): boolean {
+  return !state.transferFlow && !state.pinFlow && !state.awaitingInterruptConfirmation;
+}
+
+/**
+ * Strip card fields before a state leaves process memory
+ */
+function toPersistable(state: UserState): UserState {
+  const copy: UserState = JSON.parse(JSON.stringify(state));
+  purgeCardData(copy.transferFlow?.data);
+  return copy;
+}
+
+/**
+ * Card data is never persisted, so a restored MASTERCARD flow that was past
+ * card entry has to go back and collect it again.
+ */
+function rewindRestoredFlow(state: UserState): void {
+  const flow = state.transferFlow;
+  if (flow && flow.data.paymentMethod === 'MASTERCARD' && CARD_DEPENDENT_STEPS.includes(flow.step)) {
+    flow.step = 'card_number';
+    flow.restored = true;
+    delete flow.returnTo;
+    delete flow.editSnapshot;
+    // A PIN prompt or quote from before the restart belongs to the card that was lost
+    delete flow.awaitingPin;
+    delete flow.quote;
+  }
+}
+
+/**
+ * In-memory store (state is lost on restart)
+ */
+export class MemoryUserStateStore implements UserStateStore {
+  protected states: Map<string, UserState> = new Map();
+
+  async load(): Promise<void> {
+    // Nothing to load
+  }
+
+  async get(chatId: string): Promise<UserState | undefined> {
+    const state = this.states.get(chatId);
+    if (state && this.isExpired(state)) {
+      await this.delete(chatId);
+      return undefined;
+    }
+    return state;
+  }
+
+  async set(chatId: string, state: UserState): Promise<void> {
+    if (isEmptyState(state)) {
+      await this.delete(chatId);
+      return;
+    }
+
+    state.updatedAt = Date.now();
+    this.states.set(chatId, state);
+  }
+
+  async delete(chatId: string): Promise<void> {
+    // Wipe card details held by an abandoned flow
+    purgeCardData(this.states.get(chatId)?.transferFlow?.data);
+    this.states.delete(chatId);
+  }
+
+  async entries(): Promise<Array<[string, UserState]>> {
+    return Array.from(this.states.entries()).filter(([, state]) => !this.isExpired(state));
+  }
+
+  async purgeExpired(): Promise<number> {
+    const expired = Array.from(this.states.entries())
+      .filter(([, state]) => this.isExpired(state))
+      .map(([chatId]) => chatId);
+
+    for (const chatId of expired) {
+      purgeCardData(this.states.get(chatId)?.transferFlow?.data);
+      this.states.delete(chatId);
+    }
+
+    if (expired.length > 0) {
+      logger.info(`[StateStore] Purged ${expired.length} expired user state(s)`);
+    }
+    return expired.length;
+  }
+
+  protected isExpired(state: UserState): boolean {
+    return Date.now() - (state.updatedAt || 0) > STATE_TTL;
+  }
+}
+
+/**
+ * File-backed store - every change is written to disk so in-progress
+ * transfers survive bot restarts
+ */
+export class FileUserStateStore extends MemoryUserStateStore {
+  private file: JsonFileStore<UserState>;
+
+  constructor(fileName: string = 'user-states.json') {
+    super();
+    this.file = new JsonFileStore<UserState>(fileName);
+  }
+
+  async load(): Promise<void> {
+    const records = this.file.read();
+
+    for (const [chatId, state] of Object.entries(records)) {
+      if (this.isExpired(state) || isEmptyState(state)) continue;
+      rewindRestoredFlow(state);
+      this.states.set(chatId, state);
+    }
+
+    logger.info(`[StateStore] Restored ${this.states.size} user state(s) from disk`);
+    this.flush();
+  }
+
+  async set(chatId: string, state: UserState): Promise<void> {
+    await super.set(chatId, state);
+    this.flush();
+  }
+
+  async delete(chatId: string): Promise<void> {
+    await super.delete(chatId);
+    this.flush();
+  }
+
+  async purgeExpired(): Promise<number> {
+    const purged = await super.purgeExpired();
+    if (purged > 0) {
+      this.flush();
+    }
+    return purged;
+  }
+
+  private flush(): void {
+    const records: Record<string, UserState> = {};
+    for (const [chatId, state] of this.states.entries()) {
+      records[chatId] = toPersistable(state);
+    }
+    this.file.write(records);
+  }
+}
+
+/**
+ * Create the store selected by USER_STATE_STORE (file | memory)
+ */
+export function createUserStateStore(): UserStateStore {
+  const type = process.env.USER_STATE_STORE || 'file';
+  if (type === 'memory') {
+    logger.info('[StateStore] Using in-memory user state store');
+    return new MemoryUserStateStore();
+  }
+  logger.info('[StateStore] Using file-backed user state store');
+  return new FileUserStateStore();
+}
@@ -0,0 +1,241 @@
+import logger from '../logger.js';
+import { BackendService } from './backendService.js';
+import { NotificationService } from './notificationService.js';
+import { RecipientService } from './recipientService.js';
+import { TransferTimelineService } from './transferTimelineService.js';
+import { buildInvoiceNotification } from '../transfer/invoice.js';
+import { JsonFileStore } from '../utils/jsonFileStore.js';
+import { CATCH_UP_NOTE, buildCompletionSummary, buildStatusMessage } from '../transfer/statusMessages.js';
+import type { StatusEvent, TransferDetails } from '../types/index.js';
+
+interface TransferStatusState {
+  chatId: string;
+  // Statuses the user was already told about
+  delivered: Set<string>;
+  lastStatus: string;
+  lastWebhookAt?: number;
+  updatedAt: number;
+}
+
+// On disk the delivered set is a plain array
+type SavedTransferStatus = Omit<TransferStatusState, 'delivered'> & { delivered: string[] };
+
+const TERMINAL_STATUSES = ['COMPLETED', 'FAILED', 'CANCELLED'];
+// Normal progression; an event for an earlier stage than the last one sent arrived out of order
+const STATUS_ORDER = ['PENDING', 'PAID', 'PROCESSING'];
+
+/**
+ * Single pipeline for transfer status changes. Webhook deliveries and polling
+ * results both go through publish(), which de-duplicates them by transfer ID
+ * and status and renders the shared templates.
+ */
+export class StatusEventService {
+  // Persisted so a webhook redelivered after a restart is still recognised as a duplicate
+  private static store = new JsonFileStore<SavedTransferStatus>('transfer-statuses.json');
+  private static transfers: Map<string, TransferStatusState> = StatusEventService.load();
+
+  // How long finished transfers are remembered for de-duplication
+  private static readonly MEMORY_MS = 24 * 60 * 60 * 1000; // 24 hours
+
+  /**
+   * Check if status is terminal (no more updates expected)
+   */
+  static isTerminalStatus(status: string): boolean {
+    return TERMINAL_STATUSES.includes(status.toUpperCase());
+  }
+
+  /**
+   * Last status the user was told about, if any
+   */
+  static getLastStatus(transferId: string): string | undefined {
+    return this.transfers.get(transferId)?.lastStatus;
+  }
+
+  /**
+   * When the webhook last reported on a transfer
+   */
+  static getLastWebhookAt(transferId: string): number | undefined {
+    return this.transfers.get(transferId)?.lastWebhookAt;
+  }
+
+  /**
+   * Seed a transfer restored after a restart with the status the user was last told about
+   */
+  static restore(transferId: string, chatId: string, lastStatus: string): void {
+    // The saved pipeline state already knows exactly what was sent
+    if (this.transfers.has(transferId)) {
+      return;
+    }
+
+    const status = lastStatus.toUpperCase();
+    const index = STATUS_ORDER.indexOf(status);
+    // Earlier stages were reported before the restart too
+    const delivered = index === -1 ? [status] : STATUS_ORDER.slice(0, index + 1);
+    this.transfers.set(transferId, { chatId, delivered: new Set(delivered), lastStatus: status, updatedAt: Date.now() });
+    this.save();
+  }
+
+  /**
+   * Accept a status event from any source. Returns false when it was a duplicate
+   * (or arrived after the transfer had already finished) and nothing was sent.
+   */
+  static async publish(event: StatusEvent): Promise<boolean> {
+    this.prune();
+
+    const status = event.status.toUpperCase();
+    let state = this.transfers.get(event.transferId);
+    if (!state) {
+      state = { chatId: event.chatId, delivered: new Set(), lastStatus: 'PENDING', updatedAt: event.receivedAt };
+      this.transfers.set(event.transferId, state);
+    }
+    if (event.source === 'webhook') {
+      state.lastWebhookAt = event.receivedAt;
+    }
+
+    // Claimed before any await so a webhook and a poll racing on the same change send once
+    if (state.delivered.has(status) || this.isTerminalStatus(state.lastStatus) || this.isOutOfOrder(status, state.lastStatus)) {
+      logger.info(`Skipping stale or duplicate ${status} for transfer ${event.transferId} (from ${event.source})`);
+      return false;
+    }
+    state.delivered.add(status);
+    state.lastStatus = status;
+    state.updatedAt = event.receivedAt;
+    this.save();
+
+    logger.info(`Transfer ${event.transferId} is now ${status} (from ${event.source})`);
+    TransferTimelineService.record({ ...event, status });
+    await this.deliver({ ...event, status });
+    return true;
+  }
+
+  private static isOutOfOrder(status: string, lastStatus: string): boolean {
+    const index = STATUS_ORDER.indexOf(status);
+    return index !== -1 && index < STATUS_ORDER.indexOf(lastStatus);
+  }
+
+  /**
+   * Send the status update (and, on completion, the summary, invoice and save offer)
+   */
+  private static async deliver(event: StatusEvent): Promise<void> {
+    try {
+      if (event.status === 'COMPLETED') {
+        let details: TransferDetails | null = null;
+        try {
+          // Fetch full transfer details for summary
+          details = await BackendService.getTransactionDetails(event.transferId);
+        } catch (error) {
+          // Fallback to simple message if details fetch fails
+          logger.error('Failed to fetch transfer details:', error);
+        }
+
+        const summary = details ? buildCompletionSummary(details) : buildStatusMessage(event);
+        await NotificationService.notify(event.chatId, { text: `${event.catchUp ? CATCH_UP_NOTE : ''}${summary}` });
+        await this.sendInvoicePDF(event);
+        if (details) {
+          await this.offerToSaveRecipient(event.chatId, details);
+        }
+        return;
+      }
+
+      await NotificationService.notify(event.chatId, { text: `${event.catchUp ? CATCH_UP_NOTE : ''}${buildStatusMessage(event)}` });
+      logger.info(`Status update sent to ${event.chatId} for transfer ${event.transferId}`);
+    } catch (error) {
+      logger.error(`Failed to send status update:`, error);
+    }
+  }
+
+  /**
+   * Offer to save the recipient of a completed transfer under an alias
+   */
+  private static async offerToSaveRecipient(chatId: string, details: TransferDetails): Promise<void> {
+    try {
+      const recipient = details.recipient || {};
+      if (!recipient.name || !recipient.bank || !recipient.account || !recipient.currency) {
+        return;
+      }
+
+      const recipientDetails = {
+        recipientName: recipient.name,
+        recipientCurrency: recipient.currency,
+        recipientBank: recipient.bank,
+        recipientAccount: String(recipient.account),
+      };
+
+      if (RecipientService.isSaved(chatId, recipientDetails)) {
+        return;
+      }
+
+      RecipientService.offer(chatId, recipientDetails);
+
+      const message = `💾 *Save this recipient?*
+
+` +
+        `${recipientDetails.recipientName} - ${recipientDetails.recipientBank} ${recipientDetails.recipientAccount}
+
+` +
+        `Reply "save <alias>" (e.g. "save mom") and next time just type "transfer to mom".`;
+
+      // Answered with a WhatsApp reply, so it is not sent to other channels
+      await NotificationService.notify(chatId, { text: message }, ['whatsapp']);
+    } catch (error) {
+      logger.error(`Failed to offer saving recipient:`, error);
+    }
+  }
+
+  /**
+   * Download and send invoice PDF to user
+   */
+  private static async sendInvoicePDF(event: StatusEvent): Promise<void> {
+    const { transferId, chatId } = event;
+
+    try {
+      const sent = await NotificationService.notify(chatId, await buildInvoiceNotification(chatId, transferId));
+      if (!sent) {
+        throw new Error('No channel delivered the invoice');
+      }
+
+      logger.info(`Invoice PDF sent to ${chatId} for transfer ${transferId}`);
+    } catch (error) {
+      logger.error(`Failed to send invoice PDF for transfer ${transferId}:`, error);
+
+      // Send error message to user
+      await NotificationService.notify(
+        chatId,
+        { text: `⚠️ Unable to send invoice PDF automatically. Type "invoice ${transferId}" to try again, or contact support.` }
+      );
+    }
+  }
+
+  /**
+   * Forget transfers that haven't changed for a day
+   */
+  private static prune(): void {
+    const now = Date.now();
+    let pruned = false;
+    for (const [transferId, state] of this.transfers.entries()) {
+      if (now - state.updatedAt > this.MEMORY_MS) {
+        this.transfers.delete(transferId);
+        pruned = true;
+      }
+    }
+    if (pruned) {
+      this.save();
+    }
+  }
+
+  private static load(): Map<string, TransferStatusState> {
+    const transfers: Map<string, TransferStatusState> = new Map();
+    for (const [transferId, saved] of Object.entries(this.store.read())) {
+      transfers.set(transferId, { ...saved, delivered: new Set(saved.delivered) });
+    }
+    return transfers;
+  }
+
+  private static save(): void {
+    const records: Record<string, SavedTransferStatus> = {};
+    for (const [transferId, state] of this.transfers.entries()) {
+      records[transferId] = { ...state, delivered: Array.from(state.delivered) };
+    }
+    this.store.write(records);
+  }
+}
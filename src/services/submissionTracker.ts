@@ -0,0 +1,67 @@
+import logger from '../logger.js';
+import type { Transaction } from '../types/index.js';
+
+export interface TrackedSubmission {
+  // Idempotency key of the draft being submitted
+  key: string;
+  startedAt: number;
+  // Set once the backend created the transaction
+  transaction?: Transaction;
+}
+
+/**
+ * Tracks transfer confirmations per chat so a repeated "confirm" (double tap or
+ * redelivered message) never creates a second transaction
+ */
+export class SubmissionTracker {
+  private static submissions: Map<string, TrackedSubmission> = new Map();
+
+  // How long a submitted transfer is remembered for repeated confirms
+  private static readonly MEMORY_MS = 10 * 60 * 1000;
+
+  /**
+   * Get the chat's current or recent submission
+   */
+  static get(chatId: string): TrackedSubmission | undefined {
+    const submission = this.submissions.get(chatId);
+    if (submission && Date.now() - submission.startedAt > this.MEMORY_MS) {
+      this.submissions.delete(chatId);
+      return undefined;
+    }
+    return submission;
+  }
+
+  /**
+   * Mark a draft as being submitted. Returns the existing submission instead
+   * when the same draft is already in progress or done.
+   */
+  static begin(chatId: string, key: string): TrackedSubmission | null {
+    const existing = this.get(chatId);
+    if (existing && existing.key === key) {
+      logger.info(`Repeated confirm from ${chatId} for draft ${key}`);
+      return existing;
+    }
+
+    this.submissions.set(chatId, { key, startedAt: Date.now() });
+    return null;
+  }
+
+  /**
+   * Record the transaction created for a draft
+   */
+  static complete(chatId: string, key: string, transaction: Transaction): void {
+    const submission = this.submissions.get(chatId);
+    if (submission && submission.key === key) {
+      submission.transaction = transaction;
+    }
+  }
+
+  /**
+   * Forget a draft that was not submitted (failed, or needs confirming again)
+   */
+  static release(chatId: string, key: string): void {
+    if (this.submissions.get(chatId)?.key === key) {
+      this.submissions.delete(chatId);
+    }
+  }
+}
@@ -0,0 +1,82 @@
+import logger from '../logger.js';
+import { JsonFileStore } from '../utils/jsonFileStore.js';
+import type { StatusEvent, TransferTimeline } from '../types/index.js';
+
+/**
+ * Records when each status of a transfer was observed, for "track <ID>"
+ */
+export class TransferTimelineService {
+  private static store = new JsonFileStore<TransferTimeline>('transfer-timelines.json');
+  private static timelines: Record<string, TransferTimeline> = TransferTimelineService.store.read();
+
+  // Timelines untouched for this long are dropped
+  private static readonly RETENTION_MS = 90 * 24 * 60 * 60 * 1000; // 90 days
+
+  /**
+   * Start a timeline when the bot submits a transfer
+   */
+  static start(transferId: string, chatId: string, createdAt: number = Date.now()): void {
+    if (this.timelines[transferId]) {
+      return;
+    }
+
+    this.timelines[transferId] = {
+      transferId,
+      chatId,
+      entries: [{ status: 'CREATED', at: createdAt, source: 'bot' }],
+      updatedAt: Date.now(),
+    };
+    this.save();
+  }
+
+  /**
+   * Record a status change from the status pipeline. Each status is kept once, at the time it was first seen.
+   */
+  static record(event: StatusEvent): void {
+    const timeline = this.timelines[event.transferId] ?? {
+      transferId: event.transferId,
+      chatId: event.chatId,
+      entries: [],
+      updatedAt: event.receivedAt,
+    };
+
+    const status = event.status.toUpperCase();
+    if (!timeline.entries.some(entry => entry.status === status)) {
+      timeline.entries.push({ status, at: event.occurredAt ?? event.receivedAt, source: event.source });
+      timeline.entries.sort((a, b) => a.at - b.at);
+    }
+    if (event.blockchainTxHash) {
+      timeline.blockchainTxHash = event.blockchainTxHash;
+    }
+    if (event.blockchainUrl) {
+      timeline.blockchainUrl = event.blockchainUrl;
+    }
+    timeline.updatedAt = Date.now();
+
+    this.timelines[event.transferId] = timeline;
+    this.save();
+    logger.info(`Timeline for ${event.transferId}: ${timeline.entries.map(entry => entry.status).join(' → ')}`);
+  }
+
+  /**
+   * Timeline of a transfer (transfer IDs are matched case-insensitively)
+   */
+  static get(transferId: string): TransferTimeline | null {
+    const exact = this.timelines[transferId];
+    if (exact) {
+      return exact;
+    }
+    const key = Object.keys(this.timelines).find(id => id.toLowerCase() === transferId.toLowerCase());
+    return key ? this.timelines[key] ?? null : null;
+  }
+
+  private static save(): void {
+    const cutoff = Date.now() - this.RETENTION_MS;
+    for (const [transferId, timeline] of Object.entries(this.timelines)) {
+      if (timeline.updatedAt < cutoff) {
+        delete this.timelines[transferId];
+      }
+    }
+    this.store.write(this.timelines);
+  }
+}
@@ -0,0 +1,86 @@
+import { SUPPORTED_FIAT } from '../fiatExchange.js';
+import { findBank } from '../banks.js';
+import { getCorridor } from '../corridors.js';
+import { SUPPORTED_MOCK_TOKENS } from './steps.js';
+import type { TransferData } from '../types/index.js';
+
+// e.g. "send 150 mockUSDC to Budi Santoso BCA 1234567890 IDR"
+const COMMAND_PATTERN = /^(?:send|transfer)\s+(\d+(?:\.\d+)?)\s+(\S+)\s+to\s+(.+)$/i;
+const ACCOUNT_PATTERN = /^\d[\d-]{4,}$/;
+const BANK_CODE_PATTERN = /^[A-Z]{2,6}$/;
+
+/**
+ * Number of trailing words that exactly match a bank of the recipient currency's
+ * corridor (0 if none). At least one word is always left for the name.
+ */
+function findBankWords(words: string[], recipientCurrency: string | undefined): number {
+  const banks = getCorridor(recipientCurrency)?.banks;
+  for (let count = words.length - 1; count > 0; count--) {
+    if (findBank(words.slice(-count).join(' '), banks)?.exact) {
+      return count;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Parse a one-line transfer command into partial transfer data.
+ * Returns null when the text is not a transfer command; fields that could
+ * not be recognized are left out so the flow asks for them.
+ */
+export function parseTransferCommand(text: string): Partial<TransferData> | null {
+  const match = text.trim().match(COMMAND_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  const [, amount, currency, rest] = match;
+  const data: Partial<TransferData> = { amount: amount! };
+
+  // Sender currency decides the payment method: mock tokens are paid from a wallet, fiat by card
+  const token = SUPPORTED_MOCK_TOKENS.find(t => t.toLowerCase() === currency!.toLowerCase());
+  if (token) {
+    data.paymentMethod = 'WALLET';
+    data.senderCurrency = token;
+  } else if (SUPPORTED_FIAT.includes(currency!.toUpperCase())) {
+    data.paymentMethod = 'MASTERCARD';
+    data.senderCurrency = currency!.toUpperCase();
+  }
+
+  const words = rest!.trim().split(/\s+/);
+
+  // Trailing 3-letter currency code is the recipient currency
+  const last = words[words.length - 1]!;
+  if (words.length > 1 && SUPPORTED_FIAT.includes(last.toUpperCase())) {
+    data.recipientCurrency = last.toUpperCase();
+    words.pop();
+  }
+
+  // Account number is the last all-digit word; anything after it is ignored
+  const accountIndex = words.map(w => ACCOUNT_PATTERN.test(w)).lastIndexOf(true);
+  let nameWords = words;
+  if (accountIndex >= 0) {
+    data.recipientAccount = words[accountIndex]!.replace(/-/g, '');
+    nameWords = words.slice(0, accountIndex);
+  }
+
+  // The longest run of words before the account that names a bank exactly, e.g. "bank central asia"
+  const bankWords = data.recipientAccount ? findBankWords(nameWords, data.recipientCurrency) : 0;
+  if (bankWords > 0) {
+    data.recipientBank = nameWords.slice(-bankWords).join(' ');
+    nameWords = nameWords.slice(0, -bankWords);
+  } else {
+    // Otherwise the word before the account (or a trailing bank code like "BCA") is the bank
+    const bankCandidate = nameWords[nameWords.length - 1] || '';
+    if (nameWords.length > 1 && (data.recipientAccount || BANK_CODE_PATTERN.test(bankCandidate))) {
+      data.recipientBank = bankCandidate;
+      nameWords = nameWords.slice(0, -1);
+    }
+  }
+
+  if (nameWords.length > 0) {
+    data.recipientName = nameWords.join(' ');
+  }
+
+  return data;
+}
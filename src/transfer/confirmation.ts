@@ -0,0 +1,72 @@
+import { formatBankName } from '../banks.js';
+import { getCorridor, formatCorridorAmount, formatCorridorNumber } from '../corridors.js';
+import { StepError } from './steps.js';
+import { formatSenderAmount, quoteMinutesLeft } from './quote.js';
+import { describeCard } from '../utils/card.js';
+import type { TransferData, TransferQuote } from '../types/index.js';
+
+/**
+ * Build the transfer summary shown at the confirmation step from a backend quote
+ */
+export function buildConfirmationMessage(data: TransferData, quote: TransferQuote): string {
+  const corridor = getCorridor(data.recipientCurrency);
+  if (!corridor) {
+    throw new StepError(`❌ We can't send to ${data.recipientCurrency} yet.`, 'recipient_currency');
+  }
+
+  // Payouts must stay within the corridor's limits (in the recipient currency)
+  const { min, max } = corridor.amountLimits;
+  if (quote.recipientAmount < min || quote.recipientAmount > max) {
+    throw new StepError(
+      `❌ The recipient would receive ${formatCorridorAmount(quote.recipientAmount, corridor)}, but ${corridor.currency} transfers must be between ${formatCorridorAmount(min, corridor, 0)} and ${formatCorridorAmount(max, corridor, 0)}. Please enter a different amount.`,
+      'amount'
+    );
+  }
+
+  // Format numbers in the corridor's locale, e.g. "16.540,532" and "Rp 16.540,532" for IDR
+  const formattedRate = formatCorridorNumber(quote.exchangeRate, corridor);
+  const formattedRecipientAmount = formatCorridorAmount(quote.recipientAmount, corridor);
+
+  const formattedFee = formatSenderAmount(quote.fee.amount, quote.senderCurrency);
+  const formattedTotal = formatSenderAmount(quote.totalAmount, quote.senderCurrency);
+
+  // Show confirmation with exchange rate
+  let confirmationMessage = `📋 Please confirm your transfer details:
+
+👤 Recipient Name: ${data.recipientName}
+💱 Recipient Currency: ${data.recipientCurrency}
+🏦 Bank: ${formatBankName(data.recipientBank, corridor.banks)}
+🔢 Account Number: ${data.recipientAccount}
+💱 Sender Currency: ${data.senderCurrency}
+💰 Amount: ${data.amount} ${data.senderCurrency}`;
+
+  // Card details are only ever shown masked
+  if (data.paymentMethod === 'MASTERCARD') {
+    confirmationMessage += `\n💳 Card: ${describeCard(data.cardNumber)}`;
+  }
+
+  // Add exchange rate info if currencies are different
+  if (data.senderCurrency !== data.recipientCurrency) {
+    confirmationMessage += `
+
+📊 Exchange Rate Information:
+💱 Rate: 1 ${data.senderCurrency} = ${formattedRate} ${data.recipientCurrency}
+💰 Recipient will receive: ${formattedRecipientAmount} ${data.recipientCurrency}`;
+  }
+
+  // Add fee information
+  confirmationMessage += `
+
+💳 Fee Information:
+📊 Transfer Fee (${quote.fee.percentage}%): ${formattedFee}
+💰 Total Amount: ${formattedTotal}
+⏳ Quote valid for ${quoteMinutesLeft(quote)} min`;
+
+  confirmationMessage += `
+
+✏️ To change a detail type "edit name", "edit bank", "edit account" or "edit amount".
+
+Type "confirm" to proceed or "cancel" to abort.`;
+
+  return confirmationMessage;
+}
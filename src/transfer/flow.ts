@@ -0,0 +1,421 @@
+import { randomUUID } from 'crypto';
+import type { Message } from 'whatsapp-web.js';
+import logger from '../logger.js';
+import { EDITABLE_FIELDS, FIRST_STEP, TRANSFER_STEPS, StepError, type StepDefinition } from './steps.js';
+import { SUSPENDED_MESSAGE } from '../limits.js';
+import { AuthService } from '../services/authService.js';
+import { purgeCardData } from '../utils/card.js';
+import { SubmissionTracker } from '../services/submissionTracker.js';
+import { replyWithExistingSubmission, submitTransfer } from './submit.js';
+import { handleTransferPin, requestTransferPin } from './pin.js';
+import { describeQuoteChange, isQuoteExpired, requestQuote } from './quote.js';
+import type { TransferData, TransferStep, UserState } from '../types/index.js';
+
+const CANCELLED_MESSAGE = `❌ Transfer cancelled. How else can I help you today?
+
+📋 Available services:
+• Type "transfer" - Start a new transfer
+• Type "history" - View transaction history
+• Type "help" - List available commands`;
+
+/**
+ * Hint appended to every prompt so "back" behaves predictably
+ */
+function backHint(userState: UserState, step: TransferStep): string {
+  if (userState.transferFlow!.returnTo) {
+    return `💡 Type "back" to undo this edit`;
+  }
+  const previous = TRANSFER_STEPS[step].previous(userState.transferFlow!.data);
+  const target = previous ? `change ${TRANSFER_STEPS[previous].label}` : 'cancel transfer';
+  return `💡 Type "back" to ${target}`;
+}
+
+/**
+ * Move the flow to a step and send its prompt
+ */
+export async function enterStep(
+  message: Message,
+  userState: UserState,
+  chatId: string,
+  step: TransferStep,
+  intro?: string
+): Promise<void> {
+  const flow = userState.transferFlow!;
+  flow.step = step;
+
+  try {
+    const prompt = await TRANSFER_STEPS[step].prompt(flow.data, flow, chatId);
+    const text = intro ? `${intro}\n\n${prompt}` : prompt;
+    await message.reply(`${text}\n\n${backHint(userState, step)}`);
+  } catch (error) {
+    if (error instanceof StepError) {
+      const target = error.step;
+      // The transfer is not allowed at all (e.g. suspended account)
+      if (target === null) {
+        logger.info(`User ${chatId} transfer stopped at ${step} step`);
+        purgeCardData(flow.data);
+        delete userState.transferFlow;
+        await message.reply(error.message);
+        return;
+      }
+      // An earlier answer no longer fits (e.g. amount over the corridor limit) - ask for it again
+      if (target !== step) {
+        logger.info(`User ${chatId} must update ${target} step: ${error.message}`);
+        for (const field of TRANSFER_STEPS[target].fields) {
+          delete flow.data[field];
+        }
+        await enterStep(message, userState, chatId, target, error.message);
+        return;
+      }
+    }
+    logger.error(`Failed to build prompt for step ${step}:`, error);
+    // Keep the flow so "resume" can retry (e.g. the quote service was briefly unavailable)
+    await message.reply('❌ Sorry, we couldn\'t get a quote for your transfer right now. Type "resume" to try again or "cancel" to stop.');
+  }
+}
+
+/**
+ * Skip over steps whose fields were already filled in (e.g. from a saved recipient)
+ */
+function skipFilledSteps(step: TransferStep | null, data: TransferData): TransferStep | null {
+  let current = step;
+  while (current) {
+    const { fields } = TRANSFER_STEPS[current];
+    if (fields.length === 0 || fields.some(f => data[f] === undefined)) break;
+    current = TRANSFER_STEPS[current].next(data);
+  }
+  return current;
+}
+
+/**
+ * Run pre-filled values through the same validators as typed answers.
+ * Invalid values are dropped (so their step is asked) and their errors returned.
+ */
+function applyPrefill(
+  data: TransferData,
+  prefill: Partial<TransferData>
+): { errors: string[]; suggestion?: { step: TransferStep; value: string } } {
+  const errors: string[] = [];
+  let suggestion: { step: TransferStep; value: string } | undefined;
+  let step: TransferStep | null = FIRST_STEP;
+
+  while (step) {
+    const definition: StepDefinition = TRANSFER_STEPS[step];
+    const field = definition.fields[0];
+    const value = field ? prefill[field] : undefined;
+
+    if (definition.fields.length === 1 && value !== undefined) {
+      const result = definition.validate(String(value), data);
+      if (result.ok) {
+        Object.assign(data, result.patch);
+      } else {
+        errors.push(result.error);
+        if (result.suggestion && !suggestion) {
+          suggestion = { step, value: result.suggestion };
+        }
+      }
+    }
+    step = definition.next(data);
+  }
+
+  return suggestion ? { errors, suggestion } : { errors };
+}
+
+/**
+ * After an edit, find the first later step whose answer no longer fits
+ * (e.g. an account number that is too short for the newly chosen bank)
+ */
+function findInvalidStep(data: TransferData, from: TransferStep | null, until: TransferStep): TransferStep | null {
+  let step = from;
+  while (step && step !== until) {
+    const definition: StepDefinition = TRANSFER_STEPS[step];
+    const field = definition.fields[0];
+    if (definition.fields.length === 1 && field) {
+      const value = data[field];
+      if (value === undefined || !definition.validate(String(value), data).ok) {
+        delete data[field];
+        return step;
+      }
+    }
+    step = definition.next(data);
+  }
+  return null;
+}
+
+/**
+ * Start a new transfer flow at the first step, optionally with pre-filled data
+ */
+export async function startTransferFlow(
+  message: Message,
+  userState: UserState,
+  chatId: string,
+  prefill: Partial<TransferData> = {},
+  intro: string = `💸 Let's start your transfer process!`
+): Promise<void> {
+  // Suspended accounts can't start transfers (the limits are checked again at confirmation)
+  if (AuthService.getUser(chatId.replace('@c.us', ''))?.status === 'SUSPENDED') {
+    logger.info(`Suspended user ${chatId} tried to start a transfer`);
+    await message.reply(SUSPENDED_MESSAGE);
+    return;
+  }
+
+  userState.transferFlow = { step: FIRST_STEP, data: {}, idempotencyKey: randomUUID() };
+  const { errors, suggestion } = applyPrefill(userState.transferFlow.data, prefill);
+  logger.info(`User ${chatId} started transfer flow`);
+
+  const first = skipFilledSteps(FIRST_STEP, userState.transferFlow.data) || 'confirmation';
+  if (suggestion && suggestion.step === first) {
+    userState.transferFlow.suggestion = suggestion;
+  }
+  const notes = errors.length > 0 ? `\n\n⚠️ Some details could not be used:\n${errors.join('\n')}` : '';
+  await enterStep(message, userState, chatId, first, `${intro}${notes}`);
+}
+
+/**
+ * Cancel the active flow and wipe its data
+ */
+export async function cancelTransferFlow(message: Message, userState: UserState, chatId: string): Promise<void> {
+  const step = userState.transferFlow?.step;
+  purgeCardData(userState.transferFlow?.data);
+  delete userState.transferFlow;
+  logger.info(`User ${chatId} cancelled transfer at ${step} step`);
+  await message.reply(CANCELLED_MESSAGE);
+}
+
+/**
+ * Leave an edit and go back to where it started, unless an earlier edit
+ * invalidated another answer, which is asked for first
+ */
+async function returnFromEdit(message: Message, userState: UserState, chatId: string, intro?: string): Promise<void> {
+  const flow = userState.transferFlow!;
+  const target = flow.returnTo!;
+
+  const invalid = findInvalidStep(flow.data, FIRST_STEP, target);
+  if (invalid) {
+    logger.info(`User ${chatId} edit invalidated ${invalid} step`);
+    await enterStep(message, userState, chatId, invalid, `⚠️ Please update your ${TRANSFER_STEPS[invalid].label} to match.`);
+    return;
+  }
+
+  delete flow.returnTo;
+  delete flow.editSnapshot;
+  await enterStep(message, userState, chatId, target, intro);
+}
+
+/**
+ * Go back one step, clearing what was entered there
+ */
+async function goBack(message: Message, userState: UserState, chatId: string): Promise<void> {
+  const flow = userState.transferFlow!;
+
+  // Backing out of an edit returns to where the edit started, unchanged
+  if (flow.returnTo) {
+    logger.info(`User ${chatId} abandoned edit of ${flow.step} step`);
+    if (flow.editSnapshot) {
+      // Card details are not in the snapshot; the ones entered so far are kept
+      const { cardNumber, cardCvc, cardExpiry } = flow.data;
+      flow.data = {
+        ...flow.editSnapshot,
+        ...(cardNumber && { cardNumber }),
+        ...(cardCvc && { cardCvc }),
+        ...(cardExpiry && { cardExpiry }),
+      };
+    }
+    await returnFromEdit(message, userState, chatId, `↩️ No changes made.`);
+    return;
+  }
+
+  const current = TRANSFER_STEPS[flow.step];
+  const previous = current.previous(flow.data);
+
+  // Can't go back from first step, cancel transfer instead
+  if (!previous) {
+    await cancelTransferFlow(message, userState, chatId);
+    return;
+  }
+
+  for (const field of [...current.fields, ...TRANSFER_STEPS[previous].fields]) {
+    delete flow.data[field];
+  }
+
+  logger.info(`User ${chatId} went back to ${previous} step`);
+  await enterStep(message, userState, chatId, previous, `↩️ Back to ${TRANSFER_STEPS[previous].label} entry.`);
+}
+
+/**
+ * Jump from the confirmation screen straight to a single field
+ */
+async function editField(message: Message, userState: UserState, chatId: string, field: string): Promise<void> {
+  const flow = userState.transferFlow!;
+  const target = EDITABLE_FIELDS[field];
+
+  if (!target) {
+    await message.reply(`❌ Unknown field "${field}". You can edit: ${Object.keys(EDITABLE_FIELDS).join(', ')}.`);
+    return;
+  }
+
+  const definition = TRANSFER_STEPS[target];
+  const currentValue = definition.fields.map(f => flow.data[f]).filter(Boolean).join(' ');
+
+  flow.returnTo = flow.step;
+  // Snapshot so "back" can undo the edit, including answers it invalidates later
+  flow.editSnapshot = { ...flow.data };
+  purgeCardData(flow.editSnapshot);
+  logger.info(`User ${chatId} is editing ${target} from ${flow.step} step`);
+  await enterStep(message, userState, chatId, target, `✏️ Editing ${definition.label}${currentValue ? ` (current: ${currentValue})` : ''}.`);
+}
+
+/**
+ * Re-quote if the confirmed quote has expired. Returns true when the transfer can be
+ * submitted; if the new quote differs, the changes are shown and "confirm" is asked again.
+ */
+async function refreshExpiredQuote(message: Message, userState: UserState, chatId: string): Promise<boolean> {
+  const flow = userState.transferFlow!;
+  const previous = flow.quote;
+  if (previous && !isQuoteExpired(previous)) {
+    return true;
+  }
+
+  logger.info(`Quote for user ${chatId} expired, re-quoting before submit`);
+  try {
+    flow.quote = await requestQuote(flow.data);
+  } catch (error) {
+    logger.error(`Failed to re-quote transfer for ${chatId}:`, error);
+    await message.reply('❌ Your quote expired and we couldn\'t get a new one right now. Type "confirm" to try again or "cancel" to stop.');
+    return false;
+  }
+
+  const changes = previous ? describeQuoteChange(previous, flow.quote) : null;
+  if (previous && !changes) {
+    return true;
+  }
+
+  const intro = changes
+    ? `⏰ *Your quote expired, so we got a new one.* What changed:\n${changes}\n\nPlease review and type "confirm" again.`
+    : `⏰ Please review the latest quote and type "confirm" again.`;
+  await enterStep(message, userState, chatId, 'confirmation', intro);
+  return false;
+}
+
+/**
+ * Submit a confirmed (and authorized) draft exactly once
+ */
+async function submitConfirmedTransfer(message: Message, userState: UserState, chatId: string): Promise<void> {
+  const flow = userState.transferFlow!;
+
+  // Card details are never persisted - never submit a card transfer without them
+  const { data } = flow;
+  if (data.paymentMethod === 'MASTERCARD' && (!data.cardNumber || !data.cardCvc || !data.cardExpiry)) {
+    logger.warn(`Refused MASTERCARD submit for ${chatId} without card details`);
+    delete flow.awaitingPin;
+    delete flow.quote;
+    await enterStep(message, userState, chatId, 'card_number', '🔒 Your card details are missing. Please enter them again.');
+    return;
+  }
+
+  // Claim the draft before any await so a second "confirm" can't submit it again
+  const key = flow.idempotencyKey ??= randomUUID();
+  const existing = SubmissionTracker.begin(chatId, key);
+  if (existing) {
+    await replyWithExistingSubmission(message, existing);
+    return;
+  }
+
+  if (!(await refreshExpiredQuote(message, userState, chatId))) {
+    SubmissionTracker.release(chatId, key);
+    return;
+  }
+
+  // Clear transfer flow before submitting
+  delete userState.transferFlow;
+  await submitTransfer(message, chatId, data, key);
+}
+
+/**
+ * Handle a message for a user with an active transfer flow.
+ * Returns true when the message was consumed by the flow.
+ */
+export async function handleTransferFlow(message: Message, userState: UserState, chatId: string): Promise<boolean> {
+  const flow = userState.transferFlow;
+  if (!flow) return false;
+
+  const userInput = message.body.trim();
+  const command = userInput.toLowerCase();
+
+  // Flow was restored after a restart - show where the user left off
+  if (flow.restored) {
+    delete flow.restored;
+    logger.info(`User ${chatId} resumed a restored transfer at ${flow.step} step`);
+    const note = flow.step === 'card_number' ? '\n🔒 For your security, card details are not stored and must be entered again.' : '';
+    await enterStep(message, userState, chatId, flow.step, `🔄 Welcome back! We've restored your transfer.${note}`);
+    return true;
+  }
+
+  if (command === 'cancel') {
+    await cancelTransferFlow(message, userState, chatId);
+    return true;
+  }
+
+  // Confirmed transfer waiting for the transaction PIN
+  if (flow.awaitingPin) {
+    if (command === 'back') {
+      delete flow.awaitingPin;
+      await enterStep(message, userState, chatId, 'confirmation', `↩️ Back to your transfer details.`);
+    } else if (await handleTransferPin(message, userState, chatId, userInput)) {
+      await submitConfirmedTransfer(message, userState, chatId);
+    }
+    return true;
+  }
+
+  if (command === 'back') {
+    await goBack(message, userState, chatId);
+    return true;
+  }
+
+  if (command === 'resume') {
+    await enterStep(message, userState, chatId, flow.step, `▶️ Continuing your transfer.`);
+    return true;
+  }
+
+  const editMatch = command.match(/^edit\s+(.+)$/);
+  if (editMatch && flow.step === 'confirmation') {
+    await editField(message, userState, chatId, editMatch[1]!.trim());
+    return true;
+  }
+
+  // Replying "yes" accepts a "did you mean" suggestion for this step
+  const accepted = flow.suggestion?.step === flow.step && (command === 'yes' || command === 'y');
+  const answer = accepted ? flow.suggestion!.value : userInput;
+  delete flow.suggestion;
+
+  const step = TRANSFER_STEPS[flow.step];
+  const result = step.validate(answer, flow.data);
+  if (!result.ok) {
+    if (result.suggestion) {
+      flow.suggestion = { step: flow.step, value: result.suggestion };
+    }
+    await message.reply(`${result.error}\n\n${backHint(userState, flow.step)}`);
+    return true;
+  }
+
+  Object.assign(flow.data, result.patch);
+  logger.info(`User ${chatId} completed ${flow.step} step`);
+
+  // After an edit, go straight back (the confirmation is rebuilt from fresh data)
+  if (flow.returnTo) {
+    await returnFromEdit(message, userState, chatId);
+    return true;
+  }
+
+  const next = skipFilledSteps(step.next(flow.data), flow.data);
+  if (!next) {
+    // Users with a transaction PIN authorize the transfer before it is submitted
+    if (await requestTransferPin(message, userState, chatId)) {
+      await submitConfirmedTransfer(message, userState, chatId);
+    }
+    return true;
+  }
+
+  await enterStep(message, userState, chatId, next);
+  return true;
+}
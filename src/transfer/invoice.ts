@@ -0,0 +1,57 @@
+import type { Message } from 'whatsapp-web.js';
+import axios from 'axios';
+import logger from '../logger.js';
+import { BackendService } from '../services/backendService.js';
+import { NotificationService } from '../services/notificationService.js';
+import type { Notification } from '../types/index.js';
+
+/**
+ * Download a transfer's invoice as the chat's user and wrap it as a notification
+ */
+export async function buildInvoiceNotification(chatId: string, transferId: string): Promise<Notification> {
+  const data = await BackendService.getInvoicePdf(chatId.replace('@c.us', ''), transferId);
+
+  return {
+    text: `📄 *Invoice for Transaction ${transferId}*\n\nHere's your transaction invoice. Thank you for using TrustBridge! 🌉`,
+    subject: `TrustBridge invoice for ${transferId}`,
+    attachment: { filename: `TrustBridge-Invoice-${transferId}.pdf`, mimetype: 'application/pdf', data },
+  };
+}
+
+/**
+ * Send the invoice of a past transfer again ("invoice <ID>")
+ */
+export async function sendInvoice(message: Message, chatId: string, transferId: string): Promise<void> {
+  const whatsappNumber = chatId.replace('@c.us', '');
+
+  try {
+    await message.reply('📄 Fetching your invoice...');
+
+    // Only invoices of the user's own transfers are sent; the history also has the exact ID
+    const history = await BackendService.getTransactionHistory(whatsappNumber, 50);
+    const tx = history.find(t => String(t.id).toLowerCase() === transferId.toLowerCase());
+    if (!tx) {
+      await message.reply(`❌ Transfer ${transferId} was not found in your history.\n\n💡 Type "history" to see your recent transfers.`);
+      return;
+    }
+
+    if (String(tx.status).toUpperCase() !== 'COMPLETED') {
+      await message.reply(`⏳ Transfer ${tx.id} is ${tx.status}. Its invoice is available once the transfer is completed.`);
+      return;
+    }
+
+    const notification = await buildInvoiceNotification(chatId, String(tx.id));
+    // Asked for in this chat, so it is answered here
+    const sent = await NotificationService.notify(chatId, notification, ['whatsapp']);
+    if (!sent) {
+      throw new Error('Invoice could not be sent');
+    }
+    logger.info(`Invoice for ${tx.id} re-sent to ${chatId}`);
+  } catch (error) {
+    logger.error(`Failed to send invoice for ${transferId} to ${chatId}:`, error);
+    const notFound = axios.isAxiosError(error) && error.response?.status === 404;
+    await message.reply(notFound
+      ? `❌ No invoice is available for ${transferId} yet. Please try again later or contact support.`
+      : '❌ Unable to fetch your invoice right now. Please try again later.');
+  }
+}
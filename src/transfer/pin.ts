@@ -0,0 +1,210 @@
+import type { Message } from 'whatsapp-web.js';
+import logger from '../logger.js';
+import { PinService } from '../services/pinService.js';
+import { purgeCardData } from '../utils/card.js';
+import type { PinFlow, UserState } from '../types/index.js';
+
+/**
+ * Human-friendly wait, e.g. "25 minutes" or "24 hours"
+ */
+function formatWait(until: number): string {
+  const minutes = Math.max(1, Math.ceil((until - Date.now()) / 60000));
+  if (minutes < 120) {
+    return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+  }
+  return `${Math.ceil(minutes / 60)} hours`;
+}
+
+function lockedMessage(lockedUntil: number): string {
+  return `🔒 Too many wrong PIN attempts. PIN entry is locked for ${formatWait(lockedUntil)}.
+
+If you forgot your PIN, type "resetpin".`;
+}
+
+/**
+ * Start a setpin / changepin / resetpin conversation
+ */
+export async function startPinCommand(
+  message: Message,
+  userState: UserState,
+  chatId: string,
+  action: PinFlow['action']
+): Promise<void> {
+  if (action === 'set' && PinService.hasPin(chatId)) {
+    await message.reply('🔐 You already have a transaction PIN. Type "changepin" to change it or "resetpin" if you forgot it.');
+    return;
+  }
+
+  if (action === 'change') {
+    if (!PinService.hasPin(chatId)) {
+      await message.reply('🔐 You don\'t have a transaction PIN yet. Type "setpin" to create one.');
+      return;
+    }
+    const lockedUntil = PinService.getLockedUntil(chatId);
+    if (lockedUntil) {
+      await message.reply(lockedMessage(lockedUntil));
+      return;
+    }
+    userState.pinFlow = { action, stage: 'current' };
+    await message.reply('🔐 Please enter your *current* PIN:\n\n💡 Type "cancel" to stop.');
+    return;
+  }
+
+  if (action === 'reset') {
+    if (!PinService.hasPin(chatId)) {
+      await message.reply('🔐 You don\'t have a transaction PIN yet. Type "setpin" to create one.');
+      return;
+    }
+    userState.pinFlow = { action, stage: 'confirm_reset' };
+    await message.reply(`⚠️ *Reset your transaction PIN?*
+
+Your PIN will be removed and, for your security, transfers will be paused for the next ${formatWait(Date.now() + PinService.RESET_HOLD_MS)}. You can set a new PIN right away with "setpin".
+
+Type "RESET" to continue or "cancel" to keep your PIN.`);
+    return;
+  }
+
+  userState.pinFlow = { action, stage: 'new' };
+  await message.reply(`🔐 *Set up your transaction PIN*
+
+Choose a 4-6 digit PIN. You will be asked for it every time you confirm a transfer.
+
+💡 Type "cancel" to stop.`);
+}
+
+/**
+ * Handle a message for a user in a PIN conversation.
+ * Returns true when the message was consumed.
+ */
+export async function handlePinFlow(message: Message, userState: UserState, chatId: string): Promise<boolean> {
+  const pinFlow = userState.pinFlow;
+  if (!pinFlow) return false;
+
+  const input = message.body.trim();
+
+  if (input.toLowerCase() === 'cancel') {
+    delete userState.pinFlow;
+    await message.reply('❌ PIN update cancelled. Your PIN was not changed.');
+    return true;
+  }
+
+  switch (pinFlow.stage) {
+    case 'confirm_reset': {
+      delete userState.pinFlow;
+      if (input.toUpperCase() !== 'RESET') {
+        await message.reply('👍 PIN reset cancelled. Your PIN was not changed.');
+        return true;
+      }
+      const holdUntil = PinService.reset(chatId);
+      if (!holdUntil) {
+        await message.reply('🔐 You don\'t have a transaction PIN yet. Type "setpin" to create one.');
+        return true;
+      }
+      await message.reply(`✅ Your PIN has been removed.
+
+⏸️ Transfers are paused for ${formatWait(holdUntil)} for your security.
+🔐 Type "setpin" to choose a new PIN.`);
+      return true;
+    }
+
+    case 'current': {
+      const check = PinService.verify(chatId, input);
+      if (!check.ok) {
+        if (check.reason === 'locked') {
+          delete userState.pinFlow;
+          await message.reply(lockedMessage(check.lockedUntil));
+        } else {
+          await message.reply(`❌ Wrong PIN. ${check.attemptsLeft} attempt${check.attemptsLeft === 1 ? '' : 's'} left.`);
+        }
+        return true;
+      }
+      pinFlow.stage = 'new';
+      await message.reply('🔐 Now choose your *new* 4-6 digit PIN:');
+      return true;
+    }
+
+    case 'new': {
+      const error = PinService.validateFormat(input);
+      if (error) {
+        await message.reply(error);
+        return true;
+      }
+      pinFlow.pending = PinService.hashPin(input);
+      pinFlow.stage = 'repeat';
+      await message.reply('🔁 Please enter the same PIN again to confirm:');
+      return true;
+    }
+
+    case 'repeat': {
+      if (!pinFlow.pending || !PinService.matches(input, pinFlow.pending)) {
+        delete pinFlow.pending;
+        pinFlow.stage = 'new';
+        await message.reply('❌ The PINs didn\'t match. Please choose your PIN again:');
+        return true;
+      }
+      PinService.setPin(chatId, pinFlow.pending);
+      const changed = pinFlow.action === 'change';
+      delete userState.pinFlow;
+      await message.reply(`✅ Your transaction PIN has been ${changed ? 'changed' : 'set'}.
+
+🔐 You'll be asked for it whenever you confirm a transfer. Never share it with anyone.`);
+      return true;
+    }
+  }
+}
+
+/**
+ * Called when the user confirms a transfer. Returns true when it can be submitted
+ * right away; otherwise the PIN is requested (or the transfer is blocked).
+ */
+export async function requestTransferPin(message: Message, userState: UserState, chatId: string): Promise<boolean> {
+  const holdUntil = PinService.getResetHoldUntil(chatId);
+  if (holdUntil) {
+    await message.reply(`⏸️ Transfers are paused for another ${formatWait(holdUntil)} because your PIN was recently reset.
+
+Type "cancel" to discard this transfer, or try again later.`);
+    return false;
+  }
+
+  if (!PinService.hasPin(chatId)) {
+    return true;
+  }
+
+  const lockedUntil = PinService.getLockedUntil(chatId);
+  if (lockedUntil) {
+    await message.reply(lockedMessage(lockedUntil));
+    return false;
+  }
+
+  userState.transferFlow!.awaitingPin = true;
+  await message.reply('🔐 Please enter your transaction PIN to authorize this transfer.\n\n💡 Type "back" to review the details or "cancel" to stop.');
+  return false;
+}
+
+/**
+ * Check the PIN for a transfer awaiting authorization. Returns true when it is correct.
+ */
+export async function handleTransferPin(message: Message, userState: UserState, chatId: string, input: string): Promise<boolean> {
+  // Anything that isn't a PIN (e.g. a second "confirm") doesn't count as an attempt
+  if (!/^\d{4,6}$/.test(input)) {
+    await message.reply('🔐 Please enter your 4-6 digit transaction PIN.');
+    return false;
+  }
+
+  const check = PinService.verify(chatId, input);
+  if (check.ok) {
+    delete userState.transferFlow!.awaitingPin;
+    return true;
+  }
+
+  if (check.reason === 'locked') {
+    logger.warn(`Transfer for ${chatId} cancelled after too many wrong PINs`);
+    purgeCardData(userState.transferFlow?.data);
+    delete userState.transferFlow;
+    await message.reply(`${lockedMessage(check.lockedUntil)}\n\n❌ Your transfer was cancelled.`);
+    return false;
+  }
+
+  await message.reply(`❌ Wrong PIN. ${check.attemptsLeft} attempt${check.attemptsLeft === 1 ? '' : 's'} left.`);
+  return false;
+}
@@ -0,0 +1,79 @@
+import { BackendService } from '../services/backendService.js';
+import { getCorridor, formatCorridorAmount, formatCorridorNumber } from '../corridors.js';
+import type { TransferData, TransferQuote } from '../types/index.js';
+
+/**
+ * Request a fresh quote from the backend for the current transfer details
+ */
+export async function requestQuote(data: TransferData): Promise<TransferQuote> {
+  return BackendService.calculateTransfer(
+    data.senderCurrency!,
+    data.recipientCurrency!,
+    parseFloat(data.amount!),
+    data.paymentMethod!
+  );
+}
+
+export function isQuoteExpired(quote: TransferQuote, now: number = Date.now()): boolean {
+  return now >= quote.expiresAt;
+}
+
+/**
+ * Check that a quote was made for these transfer details
+ */
+function quoteMatches(quote: TransferQuote, data: TransferData): boolean {
+  return quote.senderCurrency === data.senderCurrency
+    && quote.recipientCurrency === data.recipientCurrency
+    && quote.paymentMethod === data.paymentMethod
+    && quote.senderAmount === parseFloat(data.amount!);
+}
+
+/**
+ * Reuse the current quote while it is valid and matches the details, otherwise re-quote
+ */
+export async function getQuote(data: TransferData, current?: TransferQuote): Promise<TransferQuote> {
+  if (current && !isQuoteExpired(current) && quoteMatches(current, data)) {
+    return current;
+  }
+  return requestQuote(data);
+}
+
+/**
+ * Minutes (rounded up) left before a quote expires
+ */
+export function quoteMinutesLeft(quote: TransferQuote, now: number = Date.now()): number {
+  return Math.max(1, Math.ceil((quote.expiresAt - now) / 60000));
+}
+
+/**
+ * Format a sender-side amount, e.g. "101.50 USD"
+ */
+export function formatSenderAmount(amount: number, currency: string): string {
+  return `${amount.toFixed(2)} ${currency}`;
+}
+
+/**
+ * Describe how a re-quote differs from the expired one.
+ * Returns null when nothing the user sees has changed.
+ */
+export function describeQuoteChange(previous: TransferQuote, quote: TransferQuote): string | null {
+  const corridor = getCorridor(quote.recipientCurrency);
+  const recipient = (amount: number) => corridor ? formatCorridorAmount(amount, corridor) : `${amount.toFixed(2)} ${quote.recipientCurrency}`;
+  const rate = (value: number) => corridor ? formatCorridorNumber(value, corridor) : value.toFixed(4);
+
+  const lines: string[] = [];
+  if (rate(previous.exchangeRate) !== rate(quote.exchangeRate)) {
+    lines.push(`💱 Rate: ${rate(previous.exchangeRate)} → ${rate(quote.exchangeRate)} ${quote.recipientCurrency}`);
+  }
+  if (recipient(previous.recipientAmount) !== recipient(quote.recipientAmount)) {
+    lines.push(`💰 Recipient receives: ${recipient(previous.recipientAmount)} → ${recipient(quote.recipientAmount)}`);
+  }
+  if (previous.fee.amount.toFixed(2) !== quote.fee.amount.toFixed(2)) {
+    lines.push(`📊 Fee: ${formatSenderAmount(previous.fee.amount, quote.senderCurrency)} → ${formatSenderAmount(quote.fee.amount, quote.senderCurrency)}`);
+  }
+  if (previous.totalAmount.toFixed(2) !== quote.totalAmount.toFixed(2)) {
+    lines.push(`💳 Total: ${formatSenderAmount(previous.totalAmount, quote.senderCurrency)} → ${formatSenderAmount(quote.totalAmount, quote.senderCurrency)}`);
+  }
+
+  return lines.length > 0 ? lines.join('\n') : null;
+}
@@ -0,0 +1,64 @@
+import type { Message } from 'whatsapp-web.js';
+import logger from '../logger.js';
+import { BackendService } from '../services/backendService.js';
+import { startTransferFlow } from './flow.js';
+import type { TransferData, TransferDetails, UserState } from '../types/index.js';
+
+/**
+ * Build transfer data from a previous transfer. Card details are never
+ * copied, so MASTERCARD repeats still go through card entry.
+ */
+function buildRepeatPrefill(details: TransferDetails): Partial<TransferData> {
+  const prefill: Partial<TransferData> = {};
+  const paymentMethod = details.paymentMethod || details.payment_method;
+
+  if (paymentMethod === 'WALLET' || paymentMethod === 'MASTERCARD') prefill.paymentMethod = paymentMethod;
+  if (details.recipient?.name) prefill.recipientName = details.recipient.name;
+  if (details.recipient?.currency) prefill.recipientCurrency = details.recipient.currency;
+  if (details.recipient?.bank) prefill.recipientBank = details.recipient.bank;
+  if (details.recipient?.account) prefill.recipientAccount = String(details.recipient.account);
+  if (details.sender?.currency) prefill.senderCurrency = details.sender.currency;
+  if (details.sender?.amount) prefill.amount = String(details.sender.amount);
+
+  return prefill;
+}
+
+/**
+ * Start a new transfer flow cloned from a previous transfer ("repeat <ID>")
+ */
+export async function repeatTransfer(
+  message: Message,
+  userState: UserState,
+  chatId: string,
+  transferId: string
+): Promise<void> {
+  const whatsappNumber = chatId.replace('@c.us', '');
+
+  try {
+    await message.reply('🔁 Loading your previous transfer...');
+
+    // Only transfers from the user's own history can be repeated
+    const history = await BackendService.getTransactionHistory(whatsappNumber, 50);
+    const owned = history.some(tx => String(tx.id).toLowerCase() === transferId.toLowerCase());
+    if (!owned) {
+      await message.reply(`❌ Transfer ${transferId} was not found in your history.\n\n💡 Type "history" to see your recent transfers.`);
+      return;
+    }
+
+    const details = await BackendService.getTransactionDetails(transferId);
+    const prefill = buildRepeatPrefill(details);
+
+    let intro = `🔁 Repeating transfer ${transferId}`;
+    if (prefill.recipientName) intro += ` to *${prefill.recipientName}*`;
+    intro += '.';
+    if (prefill.paymentMethod === 'MASTERCARD') {
+      intro += `\n🔒 Card details are never reused - please enter your card again.`;
+    }
+
+    logger.info(`User ${chatId} is repeating transfer ${transferId}`);
+    await startTransferFlow(message, userState, chatId, prefill, intro);
+  } catch (error) {
+    logger.error(`Failed to repeat transfer ${transferId} for ${chatId}:`, error);
+    await message.reply('❌ Unable to load that transfer. Please check the ID and try again.');
+  }
+}
@@ -0,0 +1,195 @@
+import logger from '../logger.js';
+import { formatBankName } from '../banks.js';
+import { getCorridor, formatCorridorAmount } from '../corridors.js';
+import type { StatusEvent, TransferDetails } from '../types/index.js';
+
+// Prefixed to updates that happened while the bot was offline
+export const CATCH_UP_NOTE = '📴 _While we were offline, your transfer was updated:_\n\n';
+
+export const STATUS_EMOJI: Record<string, string> = {
+  'PENDING': '⏳',
+  'PAID': '💳',
+  'PROCESSING': '⚙️',
+  'COMPLETED': '✅',
+  'FAILED': '❌',
+  'CANCELLED': '🚫'
+};
+
+/**
+ * Format currency with symbol
+ */
+export function formatCurrency(amount: number, currency: string | undefined): string {
+  // Payout currencies use the corridor's locale (e.g. "Rp 16.540,532")
+  const corridor = getCorridor(currency);
+  if (corridor) {
+    return formatCorridorAmount(amount, corridor);
+  }
+
+  const symbols: Record<string, string> = {
+    'USD': '$',
+    'EUR': '€',
+    'GBP': '£',
+    'JPY': '¥',
+    'CNY': '¥',
+    'IDR': 'Rp',
+    'PHP': '₱',
+    'THB': '฿',
+    'MYR': 'RM',
+    'SGD': 'S$',
+    'INR': '₹',
+    'VND': '₫',
+    'AED': 'د.إ',
+    'MXN': '$',
+  };
+
+  const code = currency || '';
+  const symbol = symbols[code] || code;
+  const formatted = amount.toLocaleString('en-US', {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2
+  });
+
+  // For currencies that use symbol-first format
+  if (['USD', 'EUR', 'GBP', 'SGD', 'MXN'].includes(code)) {
+    return `${symbol}${formatted}`;
+  }
+
+  // For currencies that use symbol-last format
+  return `${symbol} ${formatted}`;
+}
+
+/**
+ * Format exchange rate
+ */
+function formatExchangeRate(from: string | undefined, to: string | undefined, rate: number): string {
+  const formatted = rate.toLocaleString('en-US', {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 4
+  });
+  return `1 ${from} = ${formatted} ${to}`;
+}
+
+/**
+ * Create detailed completion summary message
+ */
+export function buildCompletionSummary(details: TransferDetails): string {
+  try {
+    const sender = details.sender || {};
+    const recipient = details.recipient || {};
+    const fees = details.fees || {};
+    const blockchain = details.blockchain || {};
+
+    // Format amounts
+    const senderAmount = sender.amount || 0;
+    const recipientAmount = recipient.amount || 0;
+    const feeAmount = fees.amount || 0;
+    const totalCharged = sender.totalCharged || (senderAmount + feeAmount);
+
+    // Format currencies with symbols
+    const senderCurrencyDisplay = formatCurrency(senderAmount, sender.currency);
+    const recipientCurrencyDisplay = formatCurrency(recipientAmount, recipient.currency);
+    const feeDisplay = formatCurrency(feeAmount, sender.currency);
+    const totalDisplay = formatCurrency(totalCharged, sender.currency);
+
+    let message = `✅ *Transfer Completed Successfully!*\n\n`;
+    message += `━━━━━━━━━━━━━━━━━━━━\n\n`;
+
+    // Transfer Summary
+    message += `📤 *You Sent*\n`;
+    message += `   ${senderCurrencyDisplay}\n\n`;
+
+    message += `📥 *Recipient Receives*\n`;
+    message += `   ${recipientCurrencyDisplay}\n`;
+    message += `   ${recipient.name || 'N/A'}\n`;
+    message += `   ${formatBankName(recipient.bank, getCorridor(recipient.currency)?.banks)} - ${recipient.account || 'N/A'}\n\n`;
+
+    message += `━━━━━━━━━━━━━━━━━━━━\n\n`;
+
+    // Transaction Details
+    message += `💳 *Transaction Details*\n`;
+    message += `   Fee: ${feeDisplay} (${fees.percentage || 0}%)\n`;
+    message += `   Total: ${totalDisplay}\n`;
+    message += `   Rate: ${formatExchangeRate(sender.currency, recipient.currency, recipientAmount / senderAmount)}\n\n`;
+
+    // Blockchain Info (optional, hidden by default)
+    if (blockchain.mockADAAmount) {
+      const adaAmount = typeof blockchain.mockADAAmount === 'number'
+        ? blockchain.mockADAAmount
+        : parseFloat(blockchain.mockADAAmount);
+
+      if (!isNaN(adaAmount)) {
+        message += `⛓️ *Blockchain*\n`;
+        message += `   Via mockADA Hub\n`;
+        message += `   ${adaAmount.toFixed(2)} mockADA used\n\n`;
+      }
+    }
+
+    message += `━━━━━━━━━━━━━━━━━━━━\n\n`;
+
+    message += `✨ *Your money is on the way!*\n`;
+    message += `The recipient will receive the funds in their bank account shortly.\n\n`;
+
+    message += `Thank you for using TrustBridge! 🌉`;
+
+    return message;
+  } catch (error) {
+    logger.error('Error creating completion summary:', error);
+    // Return fallback message
+    return `✅ *Transfer Completed!*\n\nYour transfer has been completed successfully!\n\nThank you for using TrustBridge! 🌉`;
+  }
+}
+
+/**
+ * Status update message for any status. COMPLETED is the short version used
+ * when the full transfer details can't be fetched.
+ */
+export function buildStatusMessage(event: StatusEvent): string {
+  const { transferId, status } = event;
+  let message = '';
+
+  switch (status) {
+    case 'PAID':
+      message = `🔔 *Transaction Update*\n\n`;
+      message += `Transaction ID: ${transferId}\n`;
+      message += `Status: ✅ Payment Confirmed\n\n`;
+      message += `Your payment has been received and is being processed. You'll receive another update when the transaction is completed.`;
+      break;
+
+    case 'PROCESSING':
+      message = `🔔 *Transaction Update*\n\n`;
+      message += `Transaction ID: ${transferId}\n`;
+      message += `Status: ⏳ Processing\n\n`;
+      message += `Your transaction is being processed on the blockchain. This may take a few moments.`;
+      break;
+
+    case 'COMPLETED':
+      message = `✅ *Transfer Completed!*\n\n`;
+      message += `Transaction ID: ${transferId}\n\n`;
+      message += `Your transfer has been completed successfully!\n\n`;
+      message += `Thank you for using TrustBridge! 🌉`;
+      break;
+
+    case 'FAILED':
+      message = `❌ *Transaction Failed*\n\n`;
+      message += `Transaction ID: ${transferId}\n\n`;
+      if (event.failureReason) {
+        message += `Reason: ${event.failureReason}\n\n`;
+      }
+      message += `Unfortunately, your transaction failed. Please contact support or try again.`;
+      break;
+
+    case 'CANCELLED':
+      message = `⚠️ *Transaction Cancelled*\n\n`;
+      message += `Transaction ID: ${transferId}\n\n`;
+      message += `Your transaction has been cancelled.`;
+      break;
+
+    default:
+      message = `🔔 *Transaction Update*\n\n`;
+      message += `Transaction ID: ${transferId}\n`;
+      message += `Status: ${status}\n\n`;
+      message += `We'll notify you when there are more updates.`;
+  }
+
+  return message;
+}
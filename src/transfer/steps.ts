@@ -0,0 +1,299 @@
+import logger from '../logger.js';
+import { SUPPORTED_FIAT } from '../fiatExchange.js';
+import { findBank, formatBankName, getBankByCode, validateAccountNumber } from '../banks.js';
+import { getCorridor, getEnabledCorridors, isCorridorEnabled } from '../corridors.js';
+import { checkKycLimit, validateAmount, AMOUNT_RULES, formatLimit } from '../limits.js';
+import { AuthService } from '../services/authService.js';
+import { detectCardBrand, isExpiryInPast, isValidLuhn } from '../utils/card.js';
+import { buildConfirmationMessage } from './confirmation.js';
+import { getQuote } from './quote.js';
+import type { TransferData, TransferFlow, TransferStep, User } from '../types/index.js';
+
+// Supported mock tokens for WALLET payment
+export const SUPPORTED_MOCK_TOKENS = ['mockADA', 'mockUSDC', 'mockIDRX', 'mockEUROC', 'mockJPYC', 'mockCNHT', 'mockMXNT'];
+
+export type StepValidation =
+  | { ok: true; patch: Partial<TransferData> }
+  // suggestion is used as the answer if the user replies "yes"
+  | { ok: false; error: string; suggestion?: string };
+
+/**
+ * A single node in the transfer step graph
+ */
+export interface StepDefinition {
+  // Short name used in "back" hints (e.g. 'recipient name')
+  label: string;
+  // Data fields collected by this step, cleared when the user goes back to it
+  fields: (keyof TransferData)[];
+  prompt(data: TransferData, flow: TransferFlow, chatId: string): string | Promise<string>;
+  validate(input: string, data: TransferData): StepValidation;
+  previous(data: TransferData): TransferStep | null;
+  // null means the flow is complete and ready to submit
+  next(data: TransferData): TransferStep | null;
+}
+
+/**
+ * Thrown from a prompt when an earlier answer has to be changed
+ * (e.g. an amount outside the corridor's payout limits).
+ * A null step means the transfer can't continue at all.
+ */
+export class StepError extends Error {
+  constructor(message: string, public readonly step: TransferStep | null) {
+    super(message);
+    this.name = 'StepError';
+  }
+}
+
+/**
+ * Look up the user for KYC limits. Login failures are let through here;
+ * submitTransfer checks the limits again after authenticating.
+ */
+async function getUserForLimits(chatId: string): Promise<User | null> {
+  try {
+    return await AuthService.ensureAuthenticated(chatId.replace('@c.us', ''));
+  } catch (error) {
+    logger.warn(`Could not check KYC limits for ${chatId}:`, error);
+    return null;
+  }
+}
+
+export const FIRST_STEP: TransferStep = 'payment_method';
+
+// Fields that can be edited from the confirmation screen ("edit <field>")
+export const EDITABLE_FIELDS: Record<string, TransferStep> = {
+  name: 'recipient_name',
+  recipient: 'recipient_name',
+  currency: 'recipient_currency',
+  bank: 'recipient_bank',
+  account: 'recipient_account',
+  token: 'sender_currency',
+  sender: 'sender_currency',
+  amount: 'amount',
+};
+
+export const TRANSFER_STEPS: Record<TransferStep, StepDefinition> = {
+  payment_method: {
+    label: 'payment method',
+    fields: ['paymentMethod'],
+    prompt: () => `How would you like to pay?
+• Type "WALLET" - Pay via Wallet (redirect to payment link)
+• Type "MASTERCARD" - Pay via Mastercard (enter card details here)`,
+    validate: (input) => {
+      const pm = input.toUpperCase();
+      if (pm !== 'WALLET' && pm !== 'MASTERCARD') {
+        return { ok: false, error: '❌ Invalid payment method. Please type either "WALLET" or "MASTERCARD".' };
+      }
+      return { ok: true, patch: { paymentMethod: pm } };
+    },
+    previous: () => null,
+    next: () => 'recipient_name',
+  },
+
+  recipient_name: {
+    label: 'recipient name',
+    fields: ['recipientName'],
+    prompt: () => `👤 Please provide the recipient's full name:`,
+    validate: (input) => ({ ok: true, patch: { recipientName: input } }),
+    previous: () => 'payment_method',
+    next: () => 'recipient_currency',
+  },
+
+  recipient_currency: {
+    label: 'recipient currency',
+    fields: ['recipientCurrency'],
+    prompt: () => {
+      const corridors = getEnabledCorridors();
+      return `💱 What currency should the recipient receive?
+
+Available options:
+${corridors.map(c => `• ${c.currency} - ${c.name}`).join('\n')}
+
+Please type the 3-letter code (e.g. ${corridors[0]?.currency || 'IDR'}):`;
+    },
+    validate: (input) => {
+      const currency = input.toUpperCase();
+      if (!isCorridorEnabled(currency)) {
+        const available = getEnabledCorridors().map(c => c.currency).join(', ');
+        return { ok: false, error: `❌ We can't send to ${currency} yet. Please choose one of: ${available}` };
+      }
+      return { ok: true, patch: { recipientCurrency: currency } };
+    },
+    previous: () => 'recipient_name',
+    next: () => 'recipient_bank',
+  },
+
+  recipient_bank: {
+    label: 'bank name',
+    fields: ['recipientBank'],
+    prompt: (data) => {
+      const corridor = getCorridor(data.recipientCurrency);
+      const examples = corridor ? corridor.banks.slice(0, 3).map(b => b.code).join(', ') : 'BCA, Mandiri, BNI';
+      return `🏦 Please provide the recipient's bank name (e.g., ${examples}, etc.):`;
+    },
+    validate: (input, data) => {
+      // Banks are looked up in the recipient currency's corridor
+      const corridor = getCorridor(data.recipientCurrency);
+      const match = findBank(input, corridor?.banks);
+      if (!match) {
+        const examples = corridor ? corridor.banks.slice(0, 4).map(b => b.code).join(', ') : 'BCA, Mandiri, BNI, BRI';
+        const country = corridor ? ` in ${corridor.country}` : '';
+        return { ok: false, error: `❌ We don't recognize the bank "${input}"${country}. Please type the bank name or code (e.g., ${examples}).` };
+      }
+      if (!match.exact) {
+        return {
+          ok: false,
+          error: `❓ Did you mean *${formatBankName(match.bank.code, corridor?.banks)}*? Reply "yes" to use it, or type the bank name again.`,
+          suggestion: match.bank.code,
+        };
+      }
+      // Only the canonical bank code is stored and sent to the backend
+      return { ok: true, patch: { recipientBank: match.bank.code } };
+    },
+    previous: () => 'recipient_currency',
+    next: () => 'recipient_account',
+  },
+
+  recipient_account: {
+    label: 'account number',
+    fields: ['recipientAccount'],
+    prompt: () => `🔢 Please provide the recipient's account number:`,
+    validate: (input, data) => {
+      // Allow "1234 5678 90" or "1234-5678-90", check length against the bank's rule
+      const account = input.replace(/[\s-]/g, '');
+      const banks = getCorridor(data.recipientCurrency)?.banks;
+      const error = validateAccountNumber(account, data.recipientBank ? getBankByCode(data.recipientBank, banks) : undefined);
+      if (error) {
+        return { ok: false, error };
+      }
+      return { ok: true, patch: { recipientAccount: account } };
+    },
+    previous: () => 'recipient_bank',
+    next: () => 'sender_currency',
+  },
+
+  sender_currency: {
+    label: 'sender currency',
+    fields: ['senderCurrency'],
+    prompt: (data) => {
+      // Mastercard pays in fiat, wallet pays with mock tokens
+      if (data.paymentMethod === 'MASTERCARD') {
+        return `🌍 Which currency will you pay with? Choose one of: ${SUPPORTED_FIAT.join(', ')}\n\nPlease type the 3-letter code (e.g. USD).`;
+      }
+      return `🪙 Which mock token will you send?\n\nAvailable tokens:\n${SUPPORTED_MOCK_TOKENS.map(t => `• ${t}`).join('\n')}\n\nPlease type the token name (e.g. mockADA):`;
+    },
+    validate: (input, data) => {
+      if (data.paymentMethod === 'MASTERCARD') {
+        const upperCode = input.toUpperCase();
+        if (!SUPPORTED_FIAT.includes(upperCode)) {
+          return { ok: false, error: `❌ Unsupported currency. Please choose one of: ${SUPPORTED_FIAT.join(', ')}` };
+        }
+        return { ok: true, patch: { senderCurrency: upperCode } };
+      }
+      if (!SUPPORTED_MOCK_TOKENS.includes(input)) {
+        return { ok: false, error: `❌ Unsupported token. Please choose one of:\n${SUPPORTED_MOCK_TOKENS.map(t => `• ${t}`).join('\n')}` };
+      }
+      return { ok: true, patch: { senderCurrency: input } };
+    },
+    previous: () => 'recipient_account',
+    next: (data) => data.paymentMethod === 'MASTERCARD' ? 'card_number' : 'amount',
+  },
+
+  card_number: {
+    label: 'card number',
+    fields: ['cardNumber'],
+    prompt: (data) => `💳 You chose to pay with ${data.senderCurrency}. Please enter your card number (no spaces):`,
+    validate: (input) => {
+      const digits = input.replace(/[\s-]+/g, '');
+      if (!/^\d{13,19}$/.test(digits)) {
+        return { ok: false, error: '❌ Invalid card number. Please enter digits only (13-19 digits).' };
+      }
+      if (!isValidLuhn(digits)) {
+        return { ok: false, error: '❌ That card number doesn\'t look right. Please check the digits and try again.' };
+      }
+      const brand = detectCardBrand(digits);
+      if (brand !== 'MASTERCARD') {
+        const detected = brand ? ` This looks like a ${brand} card.` : '';
+        return { ok: false, error: `❌ Only Mastercard cards are accepted.${detected} Please enter a Mastercard number.` };
+      }
+      return { ok: true, patch: { cardNumber: digits } };
+    },
+    previous: () => 'sender_currency',
+    next: () => 'card_cvc',
+  },
+
+  card_cvc: {
+    label: 'card CVC',
+    fields: ['cardCvc'],
+    prompt: () => `🔒 Enter CVC (3 or 4 digits):`,
+    validate: (input) => {
+      if (!/^\d{3,4}$/.test(input)) {
+        return { ok: false, error: '❌ Invalid CVC. Please enter 3 or 4 digits.' };
+      }
+      return { ok: true, patch: { cardCvc: input } };
+    },
+    previous: () => 'card_number',
+    next: () => 'card_expiry',
+  },
+
+  card_expiry: {
+    label: 'card expiry',
+    fields: ['cardExpiry'],
+    prompt: () => `📅 Enter card expiry (MM/YY or MM/YYYY):`,
+    validate: (input) => {
+      if (!/^(0[1-9]|1[0-2])\/(\d{2}|\d{4})$/.test(input)) {
+        return { ok: false, error: '❌ Invalid expiry format. Use MM/YY or MM/YYYY.' };
+      }
+      if (isExpiryInPast(input)) {
+        return { ok: false, error: `❌ This card expired in ${input}. Please use a card that is still valid.` };
+      }
+      return { ok: true, patch: { cardExpiry: input } };
+    },
+    previous: () => 'card_cvc',
+    next: () => 'amount',
+  },
+
+  amount: {
+    label: 'amount',
+    fields: ['amount'],
+    prompt: (data) => {
+      const rule = data.senderCurrency ? AMOUNT_RULES[data.senderCurrency] : undefined;
+      const range = rule ? `\n\n(${formatLimit(rule.min, data.senderCurrency!)} - ${formatLimit(rule.max, data.senderCurrency!)} per transfer)` : '';
+      return `💰 How much ${data.senderCurrency || 'USDT'} would you like to transfer?${range}`;
+    },
+    validate: (input, data) => {
+      // Minimum, maximum and decimal places depend on the sender currency
+      const error = validateAmount(input, data.senderCurrency);
+      if (error) {
+        return { ok: false, error };
+      }
+      return { ok: true, patch: { amount: input } };
+    },
+    previous: (data) => data.paymentMethod === 'MASTERCARD' ? 'card_expiry' : 'sender_currency',
+    next: () => 'confirmation',
+  },
+
+  confirmation: {
+    label: 'confirmation',
+    fields: [],
+    prompt: async (data, flow, chatId) => {
+      // Limits tied to the user's KYC status are checked before quoting
+      const user = await getUserForLimits(chatId);
+      const limitError = user ? checkKycLimit(user, parseFloat(data.amount!), data.senderCurrency!) : null;
+      if (limitError) {
+        throw new StepError(limitError, user!.status === 'SUSPENDED' ? null : 'amount');
+      }
+
+      // The summary is built from a backend quote, kept on the flow until it expires
+      flow.quote = await getQuote(data, flow.quote);
+      return buildConfirmationMessage(data, flow.quote);
+    },
+    validate: (input) => {
+      if (input.toLowerCase() !== 'confirm') {
+        return { ok: false, error: 'Type "confirm" to proceed or "cancel" to abort.' };
+      }
+      return { ok: true, patch: {} };
+    },
+    previous: () => 'amount',
+    next: () => null,
+  },
+};
@@ -0,0 +1,154 @@
+import type { Message } from 'whatsapp-web.js';
+import logger from '../logger.js';
+import { formatBankName } from '../banks.js';
+import { getCorridor } from '../corridors.js';
+import { checkKycLimit } from '../limits.js';
+import { describeCard, maskTransferData, purgeCardData } from '../utils/card.js';
+import { BackendService } from '../services/backendService.js';
+import { AuthService } from '../services/authService.js';
+import { PollingService } from '../services/pollingService.js';
+import { TransferTimelineService } from '../services/transferTimelineService.js';
+import { SubmissionTracker, type TrackedSubmission } from '../services/submissionTracker.js';
+import type { CreateTransactionRequest, TransferData } from '../types/index.js';
+
+/**
+ * Answer a repeated "confirm" with the transfer that is already being submitted
+ */
+export async function replyWithExistingSubmission(message: Message, submission: TrackedSubmission): Promise<void> {
+  const tx = submission.transaction;
+  if (!tx) {
+    await message.reply('⏳ Your transfer is already being submitted. Please wait a moment, no need to confirm again.');
+    return;
+  }
+
+  await message.reply(`✅ This transfer was already submitted, so no new transfer was created.
+
+Transaction ID: ${tx.id}
+Status: ${tx.status}
+
+🔔 You will receive automatic updates as it progresses.`);
+}
+
+/**
+ * Submit a confirmed transfer to the backend and start status polling.
+ * The idempotency key identifies the draft, so repeated submissions return the same transfer.
+ */
+export async function submitTransfer(message: Message, chatId: string, data: TransferData, idempotencyKey: string): Promise<void> {
+  logger.info(`User ${chatId} confirmed transfer: ${JSON.stringify(maskTransferData(data))}`);
+
+  try {
+    // Extract WhatsApp number from chatId (format: 1234567890@c.us)
+    const whatsappNumber = chatId.replace('@c.us', '');
+
+    // Ensure user is authenticated with backend
+    await message.reply('🔐 Authenticating with backend...');
+    const user = await AuthService.ensureAuthenticated(whatsappNumber);
+
+    // Final KYC check now that the user's status is known for sure
+    const limitError = checkKycLimit(user, parseFloat(data.amount!), data.senderCurrency!);
+    if (limitError) {
+      logger.info(`Transfer for ${chatId} blocked by KYC limits (status: ${user.status})`);
+      SubmissionTracker.release(chatId, idempotencyKey);
+      await message.reply(limitError);
+      return;
+    }
+
+    // Build request
+    const createReq: CreateTransactionRequest = {
+      recipientPhone: chatId.startsWith('+') ? chatId : `+${whatsappNumber}`,
+      sourceCurrency: data.senderCurrency!,
+      targetCurrency: data.recipientCurrency!,
+      sourceAmount: parseFloat(data.amount!),
+      idempotencyKey
+    };
+
+    if (data.recipientAccount) createReq.recipientBankAccount = data.recipientAccount;
+    if (data.recipientBank) createReq.recipientBank = data.recipientBank;
+    if (data.recipientName) createReq.recipientName = data.recipientName;
+
+    // Attach payment method and card data
+    if (data.paymentMethod === 'MASTERCARD') {
+      createReq.paymentMethod = 'MASTERCARD';
+      createReq.card = {
+        number: data.cardNumber || '',
+        cvc: data.cardCvc || '',
+        expiry: data.cardExpiry || ''
+      };
+    } else {
+      createReq.paymentMethod = 'WALLET';
+    }
+
+    // For WALLET: Create transfer record and send payment link
+    if (data.paymentMethod === 'WALLET') {
+      await message.reply('💳 Creating transfer record...');
+      const tx = await BackendService.createTransaction(whatsappNumber, createReq);
+      SubmissionTracker.complete(chatId, idempotencyKey, tx);
+
+      // Generate payment link with pre-filled data
+      const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+      const params = new URLSearchParams({
+        transferId: tx.id,
+        recipientName: data.recipientName || '',
+        recipientCurrency: data.recipientCurrency || '',
+        recipientBank: data.recipientBank || '',
+        recipientAccount: data.recipientAccount || '',
+        senderCurrency: data.senderCurrency || '',
+        amount: data.amount || ''
+      });
+      const paymentLink = `${frontendUrl}/wallet-transfer?${params.toString()}`;
+
+      let responseMessage = `✅ Transfer details confirmed!\n\n`;
+      responseMessage += `Transaction ID: ${tx.id}\n`;
+      responseMessage += `Status: ${tx.status}\n\n`;
+      responseMessage += `🔗 *Payment Link:*\n${paymentLink}\n\n`;
+      responseMessage += `📱 *Next Steps:*\n`;
+      responseMessage += `1. Click the link above\n`;
+      responseMessage += `2. Connect your Cardano wallet\n`;
+      responseMessage += `3. Review the pre-filled details\n`;
+      responseMessage += `4. Send ${data.amount} ${data.senderCurrency} from your wallet\n\n`;
+      responseMessage += `🔔 You will receive automatic updates when the transaction is complete.`;
+
+      await message.reply(responseMessage);
+
+      TransferTimelineService.start(tx.id, chatId, Date.parse(tx.createdAt) || Date.now());
+
+      // Start polling for transaction status updates
+      PollingService.startPolling(tx.id, chatId);
+      logger.info(`Started polling for WALLET transaction ${tx.id}`);
+    } else {
+      // For MASTERCARD: Process immediately with blockchain minting
+      await message.reply('💳 Processing your transfer...');
+      const tx = await BackendService.createTransaction(whatsappNumber, createReq);
+      delete createReq.card;
+      SubmissionTracker.complete(chatId, idempotencyKey, tx);
+
+      let responseMessage = `✅ Transfer request submitted successfully!\n\n`;
+      responseMessage += `Transaction ID: ${tx.id}\n`;
+      responseMessage += `Status: ${tx.status}\n\n`;
+      responseMessage += `💰 Amount: ${data.amount} ${data.senderCurrency}\n`;
+      responseMessage += `👤 Recipient: ${data.recipientName}\n`;
+      responseMessage += `🏦 Bank: ${formatBankName(data.recipientBank, getCorridor(data.recipientCurrency)?.banks)}\n`;
+      responseMessage += `🔢 Account: ${data.recipientAccount}\n`;
+      responseMessage += `💳 Paid with: ${describeCard(data.cardNumber)}\n\n`;
+      responseMessage += `⛓️ Blockchain processing started...\n`;
+      responseMessage += `🔔 You will receive an invoice PDF when the transaction completes.`;
+
+      await message.reply(responseMessage);
+
+      TransferTimelineService.start(tx.id, chatId, Date.parse(tx.createdAt) || Date.now());
+
+      // Start polling for transaction status updates and invoice PDF
+      PollingService.startPolling(tx.id, chatId);
+      logger.info(`Started polling for MASTERCARD transaction ${tx.id}`);
+    }
+
+  } catch (err: unknown) {
+    const msg = err instanceof Error ? err.message : String(err);
+    logger.error('[Transfer] Create transaction error:', msg);
+    SubmissionTracker.release(chatId, idempotencyKey);
+    await message.reply(`❌ Failed to create transaction: ${msg || 'Unknown error'}.\n\nPlease try again later or contact support.`);
+  } finally {
+    // Card details are only needed for the initiate call
+    purgeCardData(data);
+  }
+}
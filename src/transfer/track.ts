@@ -0,0 +1,122 @@
+import type { Message } from 'whatsapp-web.js';
+import logger from '../logger.js';
+import { BackendService } from '../services/backendService.js';
+import { StatusEventService } from '../services/statusEventService.js';
+import { TransferTimelineService } from '../services/transferTimelineService.js';
+import { STATUS_EMOJI } from './statusMessages.js';
+import type { TransferTimeline } from '../types/index.js';
+
+/**
+ * Human-readable duration, e.g. "45 sec", "12 min", "1 h 5 min", "2 d 3 h"
+ */
+function formatDuration(ms: number): string {
+  const minutes = Math.floor(ms / 60000);
+  if (minutes < 1) return `${Math.max(0, Math.round(ms / 1000))} sec`;
+  if (minutes < 60) return `${minutes} min`;
+
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return minutes % 60 ? `${hours} h ${minutes % 60} min` : `${hours} h`;
+
+  const days = Math.floor(hours / 24);
+  return hours % 24 ? `${days} d ${hours % 24} h` : `${days} d`;
+}
+
+function formatTime(at: number): string {
+  return new Date(at).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+}
+
+// Explorer page for a transaction hash (webhooks only send the hash)
+const EXPLORER_TX_URL = process.env.BLOCKCHAIN_EXPLORER_URL || 'https://cardanoscan.io/transaction/';
+
+/**
+ * Explorer link from the status endpoint, or built from the webhook's transaction hash
+ */
+function getBlockchainUrl(timeline: TransferTimeline): string | undefined {
+  if (timeline.blockchainUrl) return timeline.blockchainUrl;
+  return timeline.blockchainTxHash ? `${EXPLORER_TX_URL}${timeline.blockchainTxHash}` : undefined;
+}
+
+/**
+ * Timeline message: each stage with its time and how long the transfer stayed in it
+ */
+export function buildTimelineMessage(timeline: TransferTimeline): string {
+  const { entries } = timeline;
+  const last = entries[entries.length - 1];
+  const finished = !!last && StatusEventService.isTerminalStatus(last.status);
+
+  let message = `🧭 *Transfer Timeline*\n\n`;
+  message += `ID: ${timeline.transferId}\n\n`;
+
+  entries.forEach((entry, index) => {
+    const next = entries[index + 1];
+    const label = entry.status === 'CREATED' ? '📝 Created' : `${STATUS_EMOJI[entry.status] || '🔔'} ${entry.status}`;
+    message += `${label} - ${formatTime(entry.at)}\n`;
+
+    if (next) {
+      message += `   ⏱️ ${formatDuration(next.at - entry.at)} in this stage\n`;
+    } else if (!finished) {
+      message += `   ⏱️ ${formatDuration(Date.now() - entry.at)} so far\n`;
+    }
+  });
+
+  const first = entries[0];
+  if (first && last && entries.length > 1) {
+    const end = finished ? last.at : Date.now();
+    message += `\n⌛ ${finished ? 'Total' : 'Elapsed'}: ${formatDuration(end - first.at)}\n`;
+  }
+
+  const blockchainUrl = getBlockchainUrl(timeline);
+  if (blockchainUrl) {
+    message += `\n🔗 Blockchain Transaction:\n${blockchainUrl}\n`;
+  }
+
+  message += `\n💡 Type "status ${timeline.transferId}" for the live status`;
+  return message;
+}
+
+/**
+ * Show the recorded status timeline of one of the user's transfers ("track <ID>")
+ */
+export async function trackTransfer(message: Message, chatId: string, transferId: string): Promise<void> {
+  if (!transferId) {
+    await message.reply('❌ Please provide a transfer ID.\n\nExample: track TXN-1234567890-abc123');
+    return;
+  }
+
+  const recorded = TransferTimelineService.get(transferId);
+  if (recorded && recorded.chatId === chatId) {
+    await message.reply(buildTimelineMessage(recorded));
+    return;
+  }
+
+  // Not seen by this bot (e.g. made elsewhere): show what the history knows
+  try {
+    const history = await BackendService.getTransactionHistory(chatId.replace('@c.us', ''), 50);
+    const tx = history.find(t => String(t.id).toLowerCase() === transferId.toLowerCase());
+    if (!tx) {
+      await message.reply(`❌ Transfer ${transferId} was not found in your history.\n\n💡 Type "history" to see your recent transfers.`);
+      return;
+    }
+
+    const createdAt = Date.parse(tx.created_at);
+    let reply = `🧭 *Transfer Timeline*\n\n`;
+    reply += `ID: ${tx.id}\n\n`;
+    if (!Number.isNaN(createdAt)) {
+      reply += `📝 Created - ${formatTime(createdAt)}\n`;
+    }
+    reply += `${STATUS_EMOJI[tx.status] || '🔔'} ${tx.status} (current status)\n`;
+    if (tx.blockchain_tx_url) {
+      reply += `\n🔗 Blockchain Transaction:\n${tx.blockchain_tx_url}\n`;
+    }
+    reply += `\nℹ️ Stage times are only recorded for transfers followed by this bot.`;
+    await message.reply(reply);
+  } catch (error) {
+    logger.error(`Failed to build timeline for ${transferId}:`, error);
+    await message.reply('❌ Unable to load the transfer timeline right now. Please try again later.');
+  }
+}
@@ -28,6 +28,21 @@ export interface TransactionQuote {
   timestamp: number;
 }
 
+// Backend quote from /api/transfer/calculate, valid until expiresAt
+export interface TransferQuote {
+  senderCurrency: string;
+  recipientCurrency: string;
+  paymentMethod: 'WALLET' | 'MASTERCARD';
+  senderAmount: number;
+  recipientAmount: number;
+  exchangeRate: number;
+  fee: { percentage: number; amount: number };
+  totalAmount: number;
+  // Epoch milliseconds
+  quotedAt: number;
+  expiresAt: number;
+}
+
 export interface Transaction {
   id: string;
   senderId: string;
@@ -47,6 +62,35 @@ export interface Transaction {
   completedAt?: string;
 }
 
+// Shape of GET /api/transfer/details/:transferId (fields the bot relies on)
+export interface TransferDetails {
+  id?: string;
+  status?: string;
+  paymentMethod?: 'WALLET' | 'MASTERCARD';
+  payment_method?: 'WALLET' | 'MASTERCARD';
+  sender?: {
+    amount?: number;
+    currency?: string;
+    totalCharged?: number;
+  };
+  recipient?: {
+    name?: string;
+    bank?: string;
+    account?: string;
+    currency?: string;
+    amount?: number;
+  };
+  fees?: {
+    amount?: number;
+    percentage?: number;
+  };
+  blockchain?: {
+    mockADAAmount?: number | string;
+    txHash?: string;
+    txUrl?: string;
+  };
+}
+
 export interface CreateTransactionRequest {
   recipientPhone: string;
   sourceCurrency: string;
@@ -56,6 +100,8 @@ export interface CreateTransactionRequest {
   recipientBank?: string;
   recipientName?: string;
   paymentMethod?: 'WALLET' | 'MASTERCARD';
+  // Sent as the Idempotency-Key header so a draft is only ever initiated once
+  idempotencyKey?: string;
   card?: {
     number: string;
     cvc: string;
@@ -82,7 +128,164 @@ export interface WebhookPayload {
   };
 }
 
+// A transfer status change from either the backend webhook or polling
+export interface StatusEvent {
+  transferId: string;
+  chatId: string;
+  // Upper-case status, e.g. PAID, PROCESSING, COMPLETED
+  status: string;
+  source: 'webhook' | 'polling';
+  receivedAt: number;
+  // When the backend says the change happened (webhook timestamp), if known
+  occurredAt?: number;
+  // Webhooks send the transaction hash, the status endpoint an explorer URL
+  blockchainTxHash?: string;
+  blockchainUrl?: string;
+  failureReason?: string;
+  // Found by the first poll after a restart
+  catchUp?: boolean;
+}
+
 export interface BackendError {
   error: string;
   details?: string;
 }
+
+// Conversation state
+
+export type TransferStep =
+  | 'payment_method'
+  | 'sender_currency'
+  | 'recipient_name'
+  | 'recipient_currency'
+  | 'recipient_bank'
+  | 'recipient_account'
+  | 'amount'
+  | 'card_number'
+  | 'card_cvc'
+  | 'card_expiry'
+  | 'confirmation';
+
+export interface TransferData {
+  paymentMethod?: 'WALLET' | 'MASTERCARD';
+  recipientName?: string;
+  recipientCurrency?: string;
+  recipientBank?: string;
+  recipientAccount?: string;
+  senderCurrency?: string;
+  amount?: string;
+  // Card fields (only for MASTERCARD) - never persisted
+  cardNumber?: string;
+  cardCvc?: string;
+  cardExpiry?: string;
+}
+
+export interface TransferFlow {
+  step: TransferStep;
+  data: TransferData;
+  // Set when the flow was restored after a restart and had to be rewound
+  restored?: boolean;
+  // Step to jump back to once the current step is answered (editing from confirmation)
+  returnTo?: TransferStep;
+  // Answers as they were when the edit started (without card details), restored by "back"
+  editSnapshot?: TransferData;
+  // "Did you mean" answer offered at the current step, used if the user replies "yes"
+  suggestion?: { step: TransferStep; value: string };
+  // Backend quote shown on the confirmation screen
+  quote?: TransferQuote;
+  // Idempotency key for submitting this draft (one per draft)
+  idempotencyKey?: string;
+  // Confirmed and waiting for the user's transaction PIN
+  awaitingPin?: boolean;
+  // Last time the user replied while this flow was open (ms)
+  lastActivityAt?: number;
+  // Set once the "still there?" reminder was sent for the current idle period
+  reminderSentAt?: number;
+}
+
+// setpin / changepin / resetpin conversation
+export interface PinFlow {
+  action: 'set' | 'change' | 'reset';
+  stage: 'current' | 'new' | 'repeat' | 'confirm_reset';
+  // Hash of the new PIN until it is repeated (the PIN itself is never kept)
+  pending?: PinHash;
+}
+
+export interface UserState {
+  awaitingInterruptConfirmation?: {
+    type: 'greeting' | 'menu';
+    originalMessage: string;
+  };
+  transferFlow?: TransferFlow;
+  pinFlow?: PinFlow;
+  updatedAt?: number;
+}
+
+// Transfer status timeline
+
+export interface TimelineEntry {
+  // CREATED when the bot submitted the transfer, otherwise the backend status
+  status: string;
+  at: number;
+  source: 'bot' | 'webhook' | 'polling';
+}
+
+export interface TransferTimeline {
+  transferId: string;
+  chatId: string;
+  entries: TimelineEntry[];
+  blockchainTxHash?: string;
+  blockchainUrl?: string;
+  updatedAt: number;
+}
+
+// Saved recipients (address book)
+
+export interface SavedRecipient {
+  alias: string;
+  recipientName: string;
+  recipientCurrency: string;
+  recipientBank: string;
+  recipientAccount: string;
+  createdAt: string;
+}
+
+// Transaction PIN
+
+export interface PinHash {
+  hash: string;
+  salt: string;
+}
+
+export interface PinRecord {
+  pin?: PinHash;
+  failedAttempts: number;
+  lockedUntil?: number;
+  // Transfers are paused until this time after a PIN reset
+  resetHoldUntil?: number;
+  updatedAt: string;
+}
+
+// Notifications
+
+export type NotificationChannel = 'whatsapp' | 'email';
+
+export interface NotificationAttachment {
+  filename: string;
+  mimetype: string;
+  data: Buffer;
+}
+
+export interface Notification {
+  // WhatsApp-formatted text (*bold*, _italic_); used as the caption when there is an attachment
+  text: string;
+  // Email subject; defaults to the first line of the text
+  subject?: string;
+  attachment?: NotificationAttachment;
+}
+
+export interface NotificationPreferences {
+  channels: NotificationChannel[];
+  email?: string;
+  updatedAt: string;
+}
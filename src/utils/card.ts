@@ -0,0 +1,111 @@
+import type { TransferData, TransferStep } from '../types/index.js';
+
+export type CardBrand = 'MASTERCARD' | 'VISA' | 'AMEX' | 'DISCOVER' | 'JCB' | 'UNIONPAY';
+
+const CARD_STEPS: TransferStep[] = ['card_number', 'card_cvc', 'card_expiry'];
+
+// Leading digits (IIN ranges) for each brand
+const BRAND_PATTERNS: { brand: CardBrand; pattern: RegExp }[] = [
+  { brand: 'MASTERCARD', pattern: /^(5[1-5]|222[1-9]|22[3-9]\d|2[3-6]\d{2}|27[01]\d|2720)/ },
+  { brand: 'VISA', pattern: /^4/ },
+  { brand: 'AMEX', pattern: /^3[47]/ },
+  { brand: 'DISCOVER', pattern: /^(6011|65|64[4-9])/ },
+  { brand: 'JCB', pattern: /^35(2[89]|[3-8]\d)/ },
+  { brand: 'UNIONPAY', pattern: /^62/ },
+];
+
+/**
+ * Luhn (mod 10) checksum used by all major card networks
+ */
+export function isValidLuhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return digits.length > 0 && sum % 10 === 0;
+}
+
+/**
+ * Detect the card brand from its leading digits
+ */
+export function detectCardBrand(digits: string): CardBrand | null {
+  return BRAND_PATTERNS.find(b => b.pattern.test(digits))?.brand ?? null;
+}
+
+/**
+ * Check an MM/YY or MM/YYYY expiry. Cards are valid through the end of the expiry month.
+ */
+export function isExpiryInPast(expiry: string, now: Date = new Date()): boolean {
+  const [month, year] = expiry.split('/');
+  const fullYear = year!.length === 2 ? 2000 + Number(year) : Number(year);
+  // Month index equals the next month (0-based), so this is the first instant after the expiry month
+  const endOfMonth = new Date(fullYear, Number(month), 1);
+  return now.getTime() >= endOfMonth.getTime();
+}
+
+/**
+ * Mask a card number for display, e.g. "•••• 1234"
+ */
+export function maskCardNumber(cardNumber: string | undefined): string {
+  if (!cardNumber) return 'N/A';
+  return `•••• ${cardNumber.slice(-4)}`;
+}
+
+/**
+ * Copy of card details that is safe to log
+ */
+export function maskCardDetails(card: { number: string; cvc: string; expiry: string }): { number: string; cvc: string; expiry: string } {
+  return { number: maskCardNumber(card.number), cvc: '***', expiry: '**/**' };
+}
+
+/**
+ * Display name for a card, e.g. "Mastercard •••• 1234"
+ */
+export function describeCard(cardNumber: string | undefined): string {
+  const brand = cardNumber ? detectCardBrand(cardNumber) : null;
+  const name = brand ? brand.charAt(0) + brand.slice(1).toLowerCase() : 'Card';
+  return `${name} ${maskCardNumber(cardNumber)}`;
+}
+
+/**
+ * Copy of transfer data that is safe to log
+ */
+export function maskTransferData(data: TransferData): TransferData {
+  const masked = { ...data };
+  if (masked.cardNumber) masked.cardNumber = maskCardNumber(masked.cardNumber);
+  if (masked.cardCvc) masked.cardCvc = '***';
+  if (masked.cardExpiry) masked.cardExpiry = '**/**';
+  return masked;
+}
+
+/**
+ * Remove card details from transfer data in place
+ */
+export function purgeCardData(data: TransferData | undefined): void {
+  if (!data) return;
+  delete data.cardNumber;
+  delete data.cardCvc;
+  delete data.cardExpiry;
+}
+
+/**
+ * Make an incoming message safe to log: answers to card steps are hidden
+ * entirely, and anything that looks like a card or account number is masked.
+ */
+export function maskIncomingMessage(body: string, step: TransferStep | undefined): string {
+  if (step && CARD_STEPS.includes(step)) {
+    return '[card details hidden]';
+  }
+  return body
+    .replace(/\b\d(?:[ -]?\d){12,18}\b/g, (match) => {
+      const digits = match.replace(/\D/g, '');
+      return isValidLuhn(digits) ? maskCardNumber(digits) : match;
+    })
+    // Account numbers (e.g. in "send ... BCA 1234567890 IDR"), but not the digits of transfer IDs
+    .replace(/(?<![\w-])\d{10,20}(?![\w-])/g, (match) => `${'*'.repeat(match.length - 4)}${match.slice(-4)}`);
+}
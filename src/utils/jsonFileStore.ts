@@ -0,0 +1,51 @@
+import fs from 'fs';
+import path from 'path';
+import logger from '../logger.js';
+
+// Directory for runtime data files (conversation state, etc.)
+export const DATA_DIR = process.env.DATA_DIR || path.join(process.cwd(), 'data');
+
+/**
+ * Small keyed JSON store backed by a single file in DATA_DIR.
+ * Writes go to a temp file first and are renamed into place so a crash
+ * mid-write never leaves a truncated file behind.
+ */
+export class JsonFileStore<T> {
+  private readonly filePath: string;
+
+  constructor(fileName: string) {
+    this.filePath = path.join(DATA_DIR, fileName);
+  }
+
+  /**
+   * Read all records from disk (empty object if the file does not exist yet)
+   */
+  read(): Record<string, T> {
+    try {
+      if (!fs.existsSync(this.filePath)) {
+        return {};
+      }
+
+      const raw = fs.readFileSync(this.filePath, 'utf8');
+      return raw.trim() ? JSON.parse(raw) as Record<string, T> : {};
+    } catch (error) {
+      logger.error(`[JsonFileStore] Failed to read ${this.filePath}:`, error);
+      return {};
+    }
+  }
+
+  /**
+   * Replace the file contents with the given records
+   */
+  write(records: Record<string, T>): void {
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+
+      const tempPath = `${this.filePath}.tmp`;
+      fs.writeFileSync(tempPath, JSON.stringify(records, null, 2));
+      fs.renameSync(tempPath, this.filePath);
+    } catch (error) {
+      logger.error(`[JsonFileStore] Failed to write ${this.filePath}:`, error);
+    }
+  }
+}
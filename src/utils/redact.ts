@@ -0,0 +1,201 @@
+import winston from 'winston';
+import { isValidLuhn } from './card.js';
+
+/**
+ * A redaction rule masks sensitive values in log output, both by field name
+ * (in objects and "key: value" text) and by pattern in free text.
+ */
+interface RedactionRule {
+  name: string;
+  // Field names whose values are always masked (case-insensitive)
+  keys: string[];
+  // Free-text pattern; matches are passed to mask()
+  pattern?: RegExp;
+  mask(value: string): string;
+}
+
+/**
+ * Keep only the last 4 digits, e.g. "1234567890" -> "******7890"
+ */
+function keepLastFour(value: string): string {
+  return value.length <= 4 ? '****' : `${'*'.repeat(value.length - 4)}${value.slice(-4)}`;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Env vars that always hold secrets, on top of any *_SECRET, *_TOKEN, *_PASSWORD, *_PASS or *_API_KEY
+const DEFAULT_SECRET_VARS = ['CMC_API_KEY', 'FREECURRENCY_API_KEY', 'SMTP_PASS'];
+const SECRET_VAR_PATTERN = /(_SECRET|_TOKEN|_PASSWORD|_PASS|_API_KEY)$/;
+
+/**
+ * Values of configured secrets (LOG_REDACT_SECRETS adds more env var names)
+ */
+function getSecretValues(): string[] {
+  const extra = (process.env.LOG_REDACT_SECRETS || '').split(',').map(v => v.trim()).filter(Boolean);
+  const names = new Set([...DEFAULT_SECRET_VARS, ...extra, ...Object.keys(process.env).filter(n => SECRET_VAR_PATTERN.test(n))]);
+  return Array.from(names)
+    .map(name => process.env[name] || '')
+    // Very short values would mask unrelated text
+    .filter(value => value.length >= 8);
+}
+
+function buildSecretRule(): RedactionRule {
+  const secrets = getSecretValues();
+  // Also catch truncated secrets such as "abcd1234..." by matching from their first 8 characters
+  const pattern = secrets.length > 0
+    ? new RegExp(secrets.map(s => `${escapeRegExp(s.slice(0, 8))}[\\w-]*`).join('|'), 'g')
+    : undefined;
+
+  const rule: RedactionRule = { name: 'secret', keys: ['password', 'secret', 'apiKey', 'api_key', 'x-cmc_pro_api_key'], mask: () => '[SECRET]' };
+  if (pattern) rule.pattern = pattern;
+  return rule;
+}
+
+const RULES: RedactionRule[] = [
+  {
+    name: 'card',
+    keys: ['cardNumber', 'card_number', 'pan'],
+    // 13-19 digits, optionally grouped with spaces or dashes; only Luhn-valid numbers are masked.
+    // Digits inside IDs such as "TXN-1697712345678-abc123" are not card numbers.
+    pattern: /(?<![\w-])\d(?:[ -]?\d){12,18}(?![\w-])/g,
+    mask: (value) => {
+      const digits = value.replace(/\D/g, '');
+      // Epoch-ms timestamps (no card brand starts with 1 at 13 digits)
+      if (/^1\d{12}$/.test(digits)) return value;
+      return isValidLuhn(digits) ? `[CARD ****${digits.slice(-4)}]` : value;
+    },
+  },
+  {
+    name: 'cvc',
+    keys: ['cvc', 'cvv', 'cardCvc', 'card_cvc', 'securityCode'],
+    mask: () => '***',
+  },
+  {
+    name: 'account',
+    // Only by field name: bare digit runs in free text are usually transfer IDs or timestamps
+    // (account numbers typed by users are masked by maskIncomingMessage)
+    keys: ['recipientAccount', 'recipientBankAccount', 'accountNumber', 'account'],
+    mask: keepLastFour,
+  },
+  {
+    name: 'phone',
+    keys: ['phone', 'recipientPhone', 'whatsappNumber', 'msisdn'],
+    // "+6281234567890" or WhatsApp chat IDs like "6281234567890@c.us"
+    pattern: /\+\d{8,15}\b|\b\d{8,15}(?=@c\.us)/g,
+    mask: keepLastFour,
+  },
+  {
+    name: 'token',
+    keys: ['authorization', 'accessToken', 'refreshToken', 'token'],
+    // Bearer headers and bare JWTs
+    pattern: /Bearer\s+[\w.~+/-]+=*|\beyJ[\w-]+\.[\w-]+\.[\w-]+/g,
+    mask: (value) => value.startsWith('Bearer') ? 'Bearer [REDACTED]' : '[REDACTED]',
+  },
+];
+
+/**
+ * Rules enabled by LOG_REDACT (comma-separated rule names, "none" to disable; default: all)
+ */
+function getEnabledRules(): RedactionRule[] {
+  const all = [...RULES, buildSecretRule()];
+  const setting = (process.env.LOG_REDACT || '').trim().toLowerCase();
+  if (!setting) return all;
+  if (setting === 'none') return [];
+  const enabled = setting.split(',').map(r => r.trim());
+  return all.filter(rule => enabled.includes(rule.name));
+}
+
+/**
+ * Redact strings, objects and arrays with the given rules
+ */
+export class Redactor {
+  private keyRules: Map<string, RedactionRule> = new Map();
+  private keyValuePatterns: { rule: RedactionRule; pattern: RegExp }[] = [];
+
+  constructor(private rules: RedactionRule[] = getEnabledRules()) {
+    for (const rule of rules) {
+      for (const key of rule.keys) {
+        this.keyRules.set(key.toLowerCase(), rule);
+      }
+      // "cvc: 123", "cvc=123" or "\"cvc\":\"123\"" inside text; "Authorization: Bearer <token>" keeps the scheme with its value
+      if (rule.keys.length > 0) {
+        const keys = rule.keys.map(escapeRegExp).join('|');
+        this.keyValuePatterns.push({ rule, pattern: new RegExp(`(["']?\\b(?:${keys})\\b["']?\\s*[:=]\\s*["']?)((?:Bearer|Basic)\\s+[^"',\\s}]+|[^"',\\s}]+)`, 'gi') });
+      }
+    }
+  }
+
+  redactString(text: string): string {
+    let result = text;
+    for (const { rule, pattern } of this.keyValuePatterns) {
+      result = result.replace(pattern, (_match, prefix: string, value: string) => `${prefix}${rule.mask(value)}`);
+    }
+    for (const rule of this.rules) {
+      if (rule.pattern) {
+        result = result.replace(rule.pattern, (match) => rule.mask(match));
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Return a redacted copy; the original value is never modified
+   */
+  redact(value: unknown, key?: string, seen: WeakSet<object> = new WeakSet(), depth = 0): unknown {
+    const keyRule = key ? this.keyRules.get(key.toLowerCase()) : undefined;
+    if (keyRule && (typeof value === 'string' || typeof value === 'number')) {
+      return keyRule.mask(String(value));
+    }
+
+    if (typeof value === 'string') {
+      return this.redactString(value);
+    }
+
+    if (typeof value !== 'object' || value === null) {
+      return value;
+    }
+
+    if (seen.has(value) || depth > 8) {
+      return '[Circular]';
+    }
+    seen.add(value);
+
+    if (value instanceof Error) {
+      return { name: value.name, message: this.redactString(value.message), stack: value.stack && this.redactString(value.stack) };
+    }
+
+    if (Array.isArray(value)) {
+      return value.map(item => this.redact(item, undefined, seen, depth + 1));
+    }
+
+    const copy: Record<string, unknown> = {};
+    for (const [k, v] of Object.entries(value)) {
+      copy[k] = this.redact(v, k, seen, depth + 1);
+    }
+    return copy;
+  }
+}
+
+/**
+ * Winston format that redacts the message and metadata before any transport sees them
+ */
+export const redactFormat = winston.format((info) => {
+  const redactor = getRedactor();
+  for (const key of Object.keys(info)) {
+    if (key === 'level') continue;
+    info[key] = redactor.redact(info[key], key);
+  }
+  return info;
+});
+
+let redactor: Redactor | null = null;
+
+// Built lazily so secrets loaded by dotenv after this module is imported are still covered
+function getRedactor(): Redactor {
+  if (!redactor) {
+    redactor = new Redactor();
+  }
+  return redactor;
+}
@@ -0,0 +1,160 @@
+import crypto from 'crypto';
+import logger from '../logger.js';
+
+const WEBHOOK_SECRET = process.env.WEBHOOK_SECRET || '';
+// How far a delivery's timestamp may be from our clock
+const TOLERANCE_MS = parseInt(process.env.WEBHOOK_TOLERANCE_SECONDS || '300', 10) * 1000;
+
+if (!WEBHOOK_SECRET) {
+  logger.warn('[WebhookSecurity] WEBHOOK_SECRET not set - all webhook deliveries will be rejected');
+}
+
+type Headers = Record<string, string | string[] | undefined>;
+
+export type WebhookVerification =
+  | { ok: true; deliveryId: string }
+  | { ok: false; reason: 'not_configured' | 'missing_signature' | 'missing_timestamp' | 'stale' | 'invalid_signature' | 'replayed' };
+
+// Signatures (or delivery IDs) seen within the tolerance window
+const seenDeliveries: Map<string, number> = new Map();
+
+/**
+ * Whether webhook deliveries can be accepted at all
+ */
+export function isWebhookConfigured(): boolean {
+  return !!WEBHOOK_SECRET;
+}
+
+/**
+ * Generate HMAC SHA256 signature for webhook payload.
+ * The timestamp is signed together with the raw body: "<timestamp>.<body>"
+ */
+export function generateSignature(payload: string, timestamp: string): string {
+  if (!WEBHOOK_SECRET) {
+    throw new Error('WEBHOOK_SECRET not configured');
+  }
+
+  return crypto
+    .createHmac('sha256', WEBHOOK_SECRET)
+    .update(`${timestamp}.${payload}`)
+    .digest('hex');
+}
+
+/**
+ * Verify webhook signature
+ */
+export function verifySignature(payload: string, signature: string, timestamp: string): boolean {
+  if (!WEBHOOK_SECRET) {
+    return false;
+  }
+
+  try {
+    const expectedSignature = generateSignature(payload, timestamp);
+
+    // Timing-safe comparison to prevent timing attacks
+    const expectedBuffer = Buffer.from(expectedSignature, 'hex');
+    const actualBuffer = Buffer.from(signature.replace(/^sha256=/, ''), 'hex');
+
+    if (expectedBuffer.length !== actualBuffer.length) {
+      return false;
+    }
+
+    return crypto.timingSafeEqual(expectedBuffer, actualBuffer);
+  } catch (error) {
+    logger.error('[WebhookSecurity] Signature verification error:', error);
+    return false;
+  }
+}
+
+function getHeader(headers: Headers, name: string): string | null {
+  const value = headers[name];
+  // Handle both single string and array of strings
+  const result = Array.isArray(value) ? value[0] : value;
+  return result || null;
+}
+
+/**
+ * Extract signature from request headers
+ */
+export function extractSignature(headers: Headers): string | null {
+  return getHeader(headers, 'x-webhook-signature');
+}
+
+/**
+ * Extract the delivery timestamp (unix seconds or milliseconds) from request headers
+ */
+export function extractTimestamp(headers: Headers): string | null {
+  return getHeader(headers, 'x-webhook-timestamp');
+}
+
+/**
+ * Check whether a timestamp is within the tolerance window
+ */
+export function isTimestampFresh(timestamp: string, now: number = Date.now()): boolean {
+  const value = Number(timestamp);
+  if (!Number.isFinite(value)) {
+    return false;
+  }
+  const ms = value < 1e12 ? value * 1000 : value;
+  return Math.abs(now - ms) <= TOLERANCE_MS;
+}
+
+/**
+ * Remember a delivery; returns false if it was already seen within the window
+ */
+function rememberDelivery(id: string, now: number): boolean {
+  for (const [key, seenAt] of seenDeliveries.entries()) {
+    if (now - seenAt > TOLERANCE_MS * 2) {
+      seenDeliveries.delete(key);
+    }
+  }
+
+  if (seenDeliveries.has(id)) {
+    return false;
+  }
+  seenDeliveries.set(id, now);
+  return true;
+}
+
+/**
+ * Verify a webhook request: signature over the raw body, timestamp window and replay check
+ */
+export function verifyWebhookRequest(rawBody: string, headers: Headers): WebhookVerification {
+  if (!WEBHOOK_SECRET) {
+    return { ok: false, reason: 'not_configured' };
+  }
+
+  const signature = extractSignature(headers);
+  if (!signature) {
+    return { ok: false, reason: 'missing_signature' };
+  }
+
+  const timestamp = extractTimestamp(headers);
+  if (!timestamp) {
+    return { ok: false, reason: 'missing_timestamp' };
+  }
+
+  const now = Date.now();
+  if (!isTimestampFresh(timestamp, now)) {
+    return { ok: false, reason: 'stale' };
+  }
+
+  if (!verifySignature(rawBody, signature, timestamp)) {
+    return { ok: false, reason: 'invalid_signature' };
+  }
+
+  // A delivery ID when the backend sends one, otherwise the signature itself
+  const deliveryId = getHeader(headers, 'x-webhook-id') || signature;
+  if (!rememberDelivery(deliveryId, now)) {
+    return { ok: false, reason: 'replayed' };
+  }
+
+  return { ok: true, deliveryId };
+}
+
+/**
+ * Forget a delivery that could not be processed so the backend's retry is accepted
+ */
+export function forgetDelivery(deliveryId: string): void {
+  seenDeliveries.delete(deliveryId);
+}
@@ -0,0 +1,40 @@
+import express from 'express';
+import type { Server } from 'http';
+import logger from '../logger.js';
+import { createWebhookRouter } from './webhookHandler.js';
+
+let server: Server | null = null;
+
+/**
+ * Start the HTTP server that receives backend webhooks (once per process).
+ * Updates are sent to users through StatusEventService.
+ */
+export function startWebhookServer(): void {
+  if (server) return;
+
+  const port = parseInt(process.env.WEBHOOK_PORT || '3001', 10);
+  const app = express();
+
+  app.get('/health', (_req, res) => {
+    res.json({ status: 'ok' });
+  });
+  app.use('/webhooks', createWebhookRouter());
+
+  server = app.listen(port, () => {
+    logger.info(`Webhook server listening on port ${port}`);
+  });
+  server.on('error', (error) => {
+    logger.error('Webhook server error:', error);
+  });
+}
+
+/**
+ * Stop the webhook server (for shutdown)
+ */
+export function stopWebhookServer(): void {
+  if (server) {
+    server.close();
+    server = null;
+    logger.info('Webhook server stopped');
+  }
+}
@@ -0,0 +1,92 @@
+import express from 'express';
+import type { Request, Response } from 'express';
+import logger from '../logger.js';
+import { StatusEventService } from '../services/statusEventService.js';
+import { verifyWebhookRequest, forgetDelivery } from '../utils/webhookSecurity.js';
+import type { WebhookPayload } from '../types/index.js';
+
+export function createWebhookRouter() {
+  const router = express.Router();
+
+  /**
+   * Receive transaction status updates from backend.
+   * The signature covers the exact bytes sent, so the body is parsed only after verifying it.
+   */
+  router.post('/transaction-update', express.raw({ type: 'application/json' }), async (req: Request, res: Response) => {
+    const rawBody = Buffer.isBuffer(req.body) ? req.body.toString('utf8') : '';
+
+    const verification = verifyWebhookRequest(rawBody, req.headers);
+    if (!verification.ok) {
+      logger.warn(`[Webhook] Rejected delivery: ${verification.reason}`);
+      res.status(401).json({ error: verification.reason });
+      return;
+    }
+
+    let payload: WebhookPayload;
+    try {
+      payload = JSON.parse(rawBody) as WebhookPayload;
+    } catch {
+      logger.warn('[Webhook] Invalid JSON body');
+      res.status(400).json({ error: 'Invalid JSON' });
+      return;
+    }
+
+    // A signed but incomplete payload would fail the same way on every retry
+    const missing = getMissingFields(payload);
+    if (missing.length > 0) {
+      logger.warn(`[Webhook] Payload missing required fields: ${missing.join(', ')}`);
+      res.status(400).json({ error: `Missing required fields: ${missing.join(', ')}` });
+      return;
+    }
+
+    try {
+      logger.info(`[Webhook] Received transaction update: ${payload.transactionId} -> ${payload.status}`);
+
+      // Process webhook based on status
+      await handleTransactionUpdate(payload);
+
+      // Respond quickly to backend
+      res.status(200).json({ received: true });
+
+    } catch (error) {
+      logger.error('[Webhook] Processing error:', error);
+      // Let the backend's retry of this delivery through
+      forgetDelivery(verification.deliveryId);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  return router;
+}
+
+const REQUIRED_FIELDS = ['transactionId', 'recipientPhone', 'status'] as const;
+
+/**
+ * Required fields that are absent or not a non-empty string
+ */
+function getMissingFields(payload: unknown): string[] {
+  const record = (typeof payload === 'object' && payload !== null ? payload : {}) as Record<string, unknown>;
+  return REQUIRED_FIELDS.filter(field => typeof record[field] !== 'string' || !record[field]);
+}
+
+/**
+ * Hand a transaction status update to the shared status pipeline
+ */
+async function handleTransactionUpdate(payload: WebhookPayload): Promise<void> {
+  const { recipientPhone, transactionId, status, timestamp, data } = payload;
+
+  // Format phone number for WhatsApp (remove + and add @c.us)
+  const chatId = recipientPhone.replace('+', '') + '@c.us';
+
+  await StatusEventService.publish({
+    transferId: transactionId,
+    chatId,
+    status,
+    source: 'webhook',
+    receivedAt: Date.now(),
+    // Unix seconds or milliseconds
+    ...(timestamp && { occurredAt: timestamp < 1e12 ? timestamp * 1000 : timestamp }),
+    ...(data?.blockchainTxHash && { blockchainTxHash: data.blockchainTxHash }),
+    ...(data?.failureReason && { failureReason: data.failureReason }),
+  });
+}